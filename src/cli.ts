@@ -0,0 +1,90 @@
+import Database from 'better-sqlite3';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { DEFAULT_DB_PATH, openDatabase } from './database';
+import { decodeCorpusFile, exportCorpus, importCorpus } from './corpus';
+import { buildTokenizer } from './learning';
+import { ingestPath } from './ingest';
+
+dotenv.config();
+
+// ボットを起動せずにデータベースを操作するコマンドラインツール
+const USAGE = [
+    'Usage: node dist/cli.js <command> [arguments] [--db <path>]',
+    '',
+    'Commands:',
+    '  export <guild_id> <file>   Export the corpus of a guild (gzip-compressed when <file> ends with .gz)',
+    '  import <guild_id> <file>   Merge a corpus file (JSONL or gzip) into the corpus of a guild',
+    '  ingest <guild_id> <path>   Learn from a Discord data package, messages.json/messages.csv files or UTF-8 .txt files',
+    '         [--author <user_id>] [--channel <channel_id>] [--all-channels]',
+    '',
+    'The database defaults to DATABASE_PATH or markov_chain.db.',
+].join('\n');
+
+// 値を取るオプションと、値を取らないオプション
+const VALUE_OPTIONS = ['--db', '--author', '--channel'];
+const FLAG_OPTIONS = ['--all-channels'];
+
+function parseArgs(args: string[]): { positional: string[]; options: Map<string, string>; flags: Set<string> } {
+    const positional: string[] = [];
+    const options = new Map<string, string>();
+    const flags = new Set<string>();
+
+    for (let i = 0; i < args.length; i++) {
+        if (VALUE_OPTIONS.includes(args[i]) && i + 1 < args.length) {
+            options.set(args[i], args[++i]);
+        } else if (FLAG_OPTIONS.includes(args[i])) {
+            flags.add(args[i]);
+        } else {
+            positional.push(args[i]);
+        }
+    }
+
+    return { positional, options, flags };
+}
+
+async function main(args: string[]): Promise<number> {
+    const { positional, options, flags } = parseArgs(args);
+    const [command, guildId, file] = positional;
+    if (!guildId || !file || !['export', 'import', 'ingest'].includes(command)) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    let db: Database.Database | undefined;
+    try {
+        db = openDatabase(options.get('--db') ?? (process.env.DATABASE_PATH || DEFAULT_DB_PATH));
+        if (command === 'export') {
+            const transitions = await exportCorpus(db, guildId, fs.createWriteStream(file), file.endsWith('.gz'));
+            console.log(`Exported ${transitions} transitions of guild ${guildId} to ${file}.`);
+        } else if (command === 'import') {
+            const result = importCorpus(db, guildId, decodeCorpusFile(fs.readFileSync(file)));
+            console.log(`Imported ${result.transitions} transitions into guild ${guildId} (${result.skipped} skipped, ${result.keptChannels ? 'restored from a backup of the same guild, channels kept' : 'channels merged into the guild corpus'}).`);
+        } else {
+            const tokenizer = await buildTokenizer();
+            const optedOutUsers = new Set<string>(
+                (db.prepare('SELECT user_id FROM privacy_optouts').all() as { user_id: string }[]).map(row => row.user_id)
+            );
+            const result = ingestPath({ db, tokenizer, optedOutUsers }, file, {
+                guildId,
+                authorId: options.get('--author') ?? null,
+                channelId: options.get('--channel') ?? '',
+                allChannels: flags.has('--all-channels'),
+            });
+            console.log(`Ingested ${result.messages} messages from ${result.files} files into guild ${guildId} (${result.transitions} transitions, ${result.skippedChannels} channels from other servers skipped).`);
+        }
+        return 0;
+    } catch (error) {
+        console.error('Error:', error instanceof Error ? error.message : error);
+        return 1;
+    } finally {
+        db?.close();
+    }
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}).catch(error => {
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,173 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AutocompleteInteraction, ChatInputCommandInteraction, Client, Guild, REST, RESTPostAPIChatInputApplicationCommandsJSONBody, Routes } from 'discord.js';
+import { CorpusScope } from './corpus';
+import { ChainStep, GenerationOptions } from './generation';
+import { Tokenizer } from './learning';
+import { commandsHandled } from './metrics';
+import { CommandPermissions, getPermissionKey, hasCommandPermission } from './permissions';
+import { CrawlJobRow, CrawlJobStatus, GuildSettings } from './types';
+
+// コマンドの処理に渡す、ボット本体の状態と機能
+export interface CommandContext {
+    client: Client;
+    db: Database.Database;
+    dbPath: string;
+    adminUserId: string | undefined;
+    dbGet(query: string, params: any[]): any;
+    dbAll(query: string, params: any[]): any[];
+    getTokenizer(): Tokenizer | undefined;
+    getGuildSettings(guildId: string): GuildSettings;
+    updateGuildSettings(guildId: string, changes: Partial<GuildSettings>): GuildSettings;
+    optedOutUsers: Set<string>;
+    imitationConsents: Set<string>;
+    learningChannels: Set<string>;
+    forgetSources(column: 'author_id' | 'message_id', value: string, guildId?: string): { removedTransitions: number; deletedChains: number };
+    getBlockedWords(guildId: string): string[];
+    generateWithBlocklist(guildId: string, generate: () => Promise<string>, trace?: ChainStep[]): Promise<string>;
+    generateMarkovSentence(scope: CorpusScope, maxWords?: number, order?: number, options?: GenerationOptions): Promise<string>;
+    generateResponseFromMessage(inputMessage: string, scope: CorpusScope, maxWords?: number, order?: number, options?: GenerationOptions): Promise<string>;
+    getCrawlJob(jobId: number): CrawlJobRow | null;
+    setCrawlJobStatus(jobId: number, status: CrawlJobStatus, error?: string | null): void;
+    formatCrawlJob(job: CrawlJobRow): string;
+    updateCrawlStatusMessage(jobId: number, force?: boolean): Promise<void>;
+    resolveCrawlChannels(guildId: string, channelIds: string[], includeThreads: boolean): Promise<string[]>;
+    runCrawlQueue(): Promise<void>;
+    refreshAfkTimers(guild: Guild): void;
+}
+
+// 1 つのスラッシュコマンドの定義（登録と実行の両方にこの定義を使う）
+export interface CommandModule {
+    data: { name: string; toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody };
+    permissions?: CommandPermissions;
+    execute(interaction: ChatInputCommandInteraction, context: CommandContext): Promise<void>;
+    autocomplete?(interaction: AutocompleteInteraction, context: CommandContext): Promise<void>;
+}
+
+export type CommandCollection = Map<string, CommandModule>;
+
+// コマンドモジュールを置くディレクトリ（再読み込みではこのディレクトリのモジュールを読み直す）
+const COMMANDS_DIR = path.join(__dirname, 'commands');
+
+// 変更を検知してから再読み込みするまでの待機（保存時に複数回通知されるため）
+const RELOAD_DEBOUNCE_MS = 300;
+
+// コマンドモジュールを読み込む（reload の場合はキャッシュを捨てて読み直す）
+export function loadCommands(reload = false): CommandCollection {
+    if (reload) {
+        for (const id of Object.keys(require.cache)) {
+            if (id.startsWith(COMMANDS_DIR + path.sep)) {
+                delete require.cache[id];
+            }
+        }
+    }
+
+    const { commandModules } = require('./commands') as typeof import('./commands');
+    const commands: CommandCollection = new Map();
+    for (const command of commandModules) {
+        if (commands.has(command.data.name)) {
+            throw new Error(`Duplicate command name: ${command.data.name}`);
+        }
+        commands.set(command.data.name, command);
+    }
+    return commands;
+}
+
+export function getCommandDefinitions(commands: CommandCollection): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+    return Array.from(commands.values(), command => command.data.toJSON());
+}
+
+export function hashCommandDefinitions(definitions: RESTPostAPIChatInputApplicationCommandsJSONBody[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(definitions)).digest('hex');
+}
+
+// 定義が前回の登録から変わっている場合のみ REST API で登録する（guildId 指定時はそのギルドのみ）
+export async function deployCommandDefinitions(
+    db: Database.Database,
+    rest: REST,
+    applicationId: string,
+    guildId: string | undefined,
+    definitions: RESTPostAPIChatInputApplicationCommandsJSONBody[]
+): Promise<boolean> {
+    const scope = guildId ?? 'global';
+    const hash = hashCommandDefinitions(definitions);
+    const deployed = db.prepare('SELECT hash FROM command_deployments WHERE application_id = ? AND scope = ?')
+        .get(applicationId, scope) as { hash: string } | undefined;
+    if (deployed?.hash === hash) {
+        return false;
+    }
+
+    await rest.put(
+        guildId ? Routes.applicationGuildCommands(applicationId, guildId) : Routes.applicationCommands(applicationId),
+        { body: definitions },
+    );
+    db.prepare('INSERT OR REPLACE INTO command_deployments (application_id, scope, hash, deployed_at) VALUES (?, ?, ?, ?)')
+        .run(applicationId, scope, hash, Date.now());
+    return true;
+}
+
+// スラッシュコマンドを権限を確認してから実行する
+export async function dispatchCommand(commands: CommandCollection, interaction: ChatInputCommandInteraction, context: CommandContext) {
+    console.log('Slash command received:', interaction.commandName);
+
+    const command = commands.get(interaction.commandName);
+    if (!command) {
+        commandsHandled.inc({ command: interaction.commandName, result: 'unknown' });
+        await interaction.reply({ content: '不明なコマンドです。', ephemeral: true });
+        return;
+    }
+
+    // 管理系コマンドの権限チェック
+    const permissionKey = getPermissionKey(command.permissions, interaction);
+    if (permissionKey && !hasCommandPermission(context.db, interaction, permissionKey, context.adminUserId)) {
+        commandsHandled.inc({ command: command.data.name, result: 'denied' });
+        await interaction.reply({ content: '❌ このコマンドを実行する権限がありません。', ephemeral: true });
+        return;
+    }
+
+    try {
+        await command.execute(interaction, context);
+        commandsHandled.inc({ command: command.data.name, result: 'success' });
+    } catch (error) {
+        console.error('Error handling slash command:', error);
+        commandsHandled.inc({ command: command.data.name, result: 'error' });
+
+        const errorMessage = 'コマンドの実行中にエラーが発生しました。';
+
+        if (interaction.replied || interaction.deferred) {
+            await interaction.editReply(errorMessage);
+        } else {
+            await interaction.reply({ content: errorMessage, ephemeral: true });
+        }
+    }
+}
+
+// オプションの入力候補を返す（候補を返せなかった場合は空の一覧を返す）
+export async function dispatchAutocomplete(commands: CommandCollection, interaction: AutocompleteInteraction, context: CommandContext) {
+    const command = commands.get(interaction.commandName);
+    try {
+        if (command?.autocomplete) {
+            await command.autocomplete(interaction, context);
+        }
+    } catch (error) {
+        console.error('Error handling autocomplete:', error);
+    }
+
+    if (!interaction.responded) {
+        await interaction.respond([]).catch(() => undefined);
+    }
+}
+
+// コマンドモジュールの変更を監視する（開発用）
+export function watchCommands(onChange: () => void): fs.FSWatcher {
+    let timer: NodeJS.Timeout | null = null;
+    return fs.watch(COMMANDS_DIR, () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            timer = null;
+            onChange();
+        }, RELOAD_DEBOUNCE_MS);
+    });
+}
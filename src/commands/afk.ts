@@ -0,0 +1,237 @@
+import { ChannelType, ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { AfkTimerRow, AfkWarningMode, GuildSettings } from '../types';
+import { formatChannelList } from './helpers';
+
+const AFK_WARNING_MODE_LABELS: Record<AfkWarningMode, string> = {
+    dm: 'DM',
+    channel: 'ボイスチャンネルのチャット',
+    none: '警告しない',
+};
+
+function describeAfkConditions(settings: GuildSettings): string {
+    const conditions = [
+        settings.afkCountMute ? 'ミュート' : null,
+        settings.afkCountDeafen ? 'スピーカーミュート' : null,
+        settings.afkCountAlone ? 'チャンネルに1人だけ' : null,
+    ].filter(condition => condition !== null);
+    return conditions.length > 0 ? conditions.join('・') : '（なし）';
+}
+
+async function handleAfkCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { client, dbAll, getGuildSettings, updateGuildSettings, refreshAfkTimers } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    switch (subcommand) {
+        case 'view': {
+            const settings = getGuildSettings(guildId);
+            const timers = dbAll('SELECT * FROM afk_timers WHERE guild_id = ? ORDER BY inactive_since LIMIT 10', [guildId]) as AfkTimerRow[];
+            const timerLines = timers.map(timer => {
+                const minutesLeft = Math.max(0, Math.ceil((timer.inactive_since + settings.muteTimeoutMinutes * 60 * 1000 - Date.now()) / 60000));
+                return `<@${timer.user_id}>: 約${minutesLeft}分後に移動`;
+            });
+            await interaction.reply({
+                content: [
+                    '💤 **AFK 設定**',
+                    `移動先: ${settings.afkChannelId ? `<#${settings.afkChannelId}>` : '（未設定のため移動しません）'}`,
+                    `移動までの時間: ${settings.muteTimeoutMinutes}分`,
+                    `AFK とみなす状態: ${describeAfkConditions(settings)}`,
+                    `警告: ${settings.afkWarningMode === 'none' ? '警告しない' : `${settings.afkWarningMinutes}分前に${AFK_WARNING_MODE_LABELS[settings.afkWarningMode]}で警告`}`,
+                    `ログチャンネル: ${settings.afkLogChannelId ? `<#${settings.afkLogChannelId}>` : '（なし）'}`,
+                    `除外するロール: ${settings.afkExemptRoles.length > 0 ? settings.afkExemptRoles.map(id => `<@&${id}>`).join(', ') : '（なし）'}`,
+                    `除外するチャンネル: ${formatChannelList(settings.afkExemptChannels)}`,
+                    '',
+                    '**AFK と判定されているメンバー**',
+                    ...(timerLines.length > 0 ? timerLines : ['（なし）']),
+                ].join('\n'),
+                ephemeral: true
+            });
+            return;
+        }
+        case 'rules': {
+            const channel = interaction.options.getChannel('channel');
+            const timeout = interaction.options.getInteger('timeout');
+            const mute = interaction.options.getBoolean('mute');
+            const deafen = interaction.options.getBoolean('deafen');
+            const alone = interaction.options.getBoolean('alone');
+            const changes: Partial<GuildSettings> = {};
+            if (channel) changes.afkChannelId = channel.id;
+            if (timeout !== null) changes.muteTimeoutMinutes = timeout;
+            if (mute !== null) changes.afkCountMute = mute;
+            if (deafen !== null) changes.afkCountDeafen = deafen;
+            if (alone !== null) changes.afkCountAlone = alone;
+
+            const settings = updateGuildSettings(guildId, changes);
+            await interaction.reply({
+                content: `💤 AFK 設定: ${settings.afkChannelId ? `<#${settings.afkChannelId}>` : '（未設定）'} / ${settings.muteTimeoutMinutes}分 / ${describeAfkConditions(settings)}`,
+                ephemeral: true
+            });
+            break;
+        }
+        case 'warning': {
+            const minutes = interaction.options.getInteger('minutes');
+            const mode = interaction.options.getString('mode') as AfkWarningMode | null;
+            const changes: Partial<GuildSettings> = {};
+            if (minutes !== null) changes.afkWarningMinutes = minutes;
+            if (mode) changes.afkWarningMode = mode;
+
+            const settings = updateGuildSettings(guildId, changes);
+            await interaction.reply({
+                content: settings.afkWarningMode === 'none'
+                    ? '💤 移動する前に警告しないように変更しました。'
+                    : `💤 移動の ${settings.afkWarningMinutes}分前に${AFK_WARNING_MODE_LABELS[settings.afkWarningMode]}で警告します。`,
+                ephemeral: true
+            });
+            return;
+        }
+        case 'log': {
+            const channel = interaction.options.getChannel('channel');
+            updateGuildSettings(guildId, { afkLogChannelId: channel?.id ?? null });
+            await interaction.reply({
+                content: channel ? `💤 移動の記録を <#${channel.id}> に送信します。` : '💤 移動の記録を送信しないように変更しました。',
+                ephemeral: true
+            });
+            return;
+        }
+        case 'exempt': {
+            const action = interaction.options.getString('action', true);
+            const role = interaction.options.getRole('role');
+            const channel = interaction.options.getChannel('channel');
+
+            let { afkExemptRoles, afkExemptChannels } = getGuildSettings(guildId);
+            if (action === 'clear') {
+                afkExemptRoles = [];
+                afkExemptChannels = [];
+            } else if (!role && !channel) {
+                await interaction.reply({ content: '❌ `role` か `channel` を指定してください。', ephemeral: true });
+                return;
+            } else if (action === 'add') {
+                if (role && !afkExemptRoles.includes(role.id)) afkExemptRoles = [...afkExemptRoles, role.id];
+                if (channel && !afkExemptChannels.includes(channel.id)) afkExemptChannels = [...afkExemptChannels, channel.id];
+            } else {
+                afkExemptRoles = afkExemptRoles.filter(id => id !== role?.id);
+                afkExemptChannels = afkExemptChannels.filter(id => id !== channel?.id);
+            }
+
+            updateGuildSettings(guildId, { afkExemptRoles, afkExemptChannels });
+            await interaction.reply({
+                content: `💤 除外するロール: ${afkExemptRoles.length > 0 ? afkExemptRoles.map(id => `<@&${id}>`).join(', ') : '（なし）'} / 除外するチャンネル: ${formatChannelList(afkExemptChannels)}`,
+                ephemeral: true
+            });
+            break;
+        }
+    }
+
+    // 判定条件が変わったので、ボイスチャンネルにいるメンバーを判定し直す
+    const guild = client.guilds.cache.get(guildId);
+    if (guild) {
+        refreshAfkTimers(guild);
+    }
+}
+
+export const afkCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('afk')
+        .setDescription('ボイスチャンネルで AFK のメンバーを移動する設定を管理します')
+        .addSubcommand(subcommand =>
+            subcommand.setName('view')
+                .setDescription('AFK 設定と、AFK と判定されているメンバーを表示します')
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('rules')
+                .setDescription('移動先・移動までの時間・AFK とみなす状態を変更します（権限が必要）')
+                .addChannelOption(option =>
+                    option.setName('channel')
+                        .setDescription('移動先のボイスチャンネル')
+                        .addChannelTypes(ChannelType.GuildVoice)
+                        .setRequired(false)
+                )
+                .addIntegerOption(option =>
+                    option.setName('timeout')
+                        .setDescription('AFK の状態が続いてから移動するまでの時間（分）')
+                        .setRequired(false)
+                        .setMinValue(1)
+                        .setMaxValue(1440)
+                )
+                .addBooleanOption(option =>
+                    option.setName('mute')
+                        .setDescription('マイクのミュートを AFK とみなす')
+                        .setRequired(false)
+                )
+                .addBooleanOption(option =>
+                    option.setName('deafen')
+                        .setDescription('スピーカーミュートを AFK とみなす')
+                        .setRequired(false)
+                )
+                .addBooleanOption(option =>
+                    option.setName('alone')
+                        .setDescription('チャンネルに 1 人だけの状態を AFK とみなす')
+                        .setRequired(false)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('warning')
+                .setDescription('移動する前の警告を変更します（権限が必要）')
+                .addIntegerOption(option =>
+                    option.setName('minutes')
+                        .setDescription('移動の何分前に警告するか')
+                        .setRequired(false)
+                        .setMinValue(1)
+                        .setMaxValue(60)
+                )
+                .addStringOption(option =>
+                    option.setName('mode')
+                        .setDescription('警告の送り先')
+                        .setRequired(false)
+                        .addChoices(
+                            { name: 'DM', value: 'dm' },
+                            { name: 'ボイスチャンネルのチャット', value: 'channel' },
+                            { name: '警告しない', value: 'none' }
+                        )
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('log')
+                .setDescription('メンバーを移動したときに記録するチャンネルを設定します（権限が必要）')
+                .addChannelOption(option =>
+                    option.setName('channel')
+                        .setDescription('ログチャンネル（省略すると記録しない）')
+                        .addChannelTypes(ChannelType.GuildText)
+                        .setRequired(false)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('exempt')
+                .setDescription('AFK の判定から除外するロール・チャンネルを変更します（権限が必要）')
+                .addStringOption(option =>
+                    option.setName('action')
+                        .setDescription('操作')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: '追加', value: 'add' },
+                            { name: '削除', value: 'remove' },
+                            { name: 'すべて削除', value: 'clear' }
+                        )
+                )
+                .addRoleOption(option =>
+                    option.setName('role')
+                        .setDescription('対象のロール')
+                        .setRequired(false)
+                )
+                .addChannelOption(option =>
+                    option.setName('channel')
+                        .setDescription('対象のボイスチャンネル')
+                        .addChannelTypes(ChannelType.GuildVoice)
+                        .setRequired(false)
+                )
+        ),
+    permissions: { rules: 'afk', warning: 'afk', log: 'afk', exempt: 'afk' },
+    execute: handleAfkCommand,
+};
@@ -0,0 +1,38 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { AutoResponseMode } from '../types';
+import { describeAutoResponseMode } from './helpers';
+
+async function handleAutoResponseCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { updateGuildSettings } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const mode = interaction.options.getString('mode') as AutoResponseMode;
+    
+    const settings = updateGuildSettings(interaction.guildId, { autoResponseMode: mode });
+    
+    await interaction.reply(`⚙️ 自動応答設定を変更しました: ${describeAutoResponseMode(settings)}`);
+}
+
+export const autoresponseCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('autoresponse')
+        .setDescription('自動応答機能の設定を変更します')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .addStringOption(option =>
+            option.setName('mode')
+                .setDescription('自動応答モード')
+                .setRequired(true)
+                .addChoices(
+                    { name: '有効（メンション時のみ）', value: 'mention_only' },
+                    { name: '有効（ランダム応答あり）', value: 'random' },
+                    { name: '無効', value: 'disabled' }
+                )
+        ),
+    permissions: 'autoresponse',
+    execute: handleAutoResponseCommand,
+};
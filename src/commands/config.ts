@@ -0,0 +1,191 @@
+import { ChannelType, ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { GuildSettings } from '../types';
+import { CREATIVITY_CHOICES, describeAutoResponseMode, describeChainOrder, formatChannelList } from './helpers';
+
+async function handleConfigCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { getGuildSettings, updateGuildSettings } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    switch (subcommand) {
+        case 'view': {
+            const settings = getGuildSettings(guildId);
+            await interaction.reply({
+                content: [
+                    '⚙️ **サーバー設定**',
+                    `自動応答: ${describeAutoResponseMode(settings)}`,
+                    `応答のクールダウン: チャンネル ${settings.responseCooldownSeconds}秒 / ユーザー ${settings.userCooldownSeconds}秒`,
+                    `応答回数の上限: ${settings.maxRepliesPerMinute > 0 ? `1分あたり${settings.maxRepliesPerMinute}回` : '無制限'}`,
+                    `ボット発言後の抑制: ${settings.botSilenceSeconds}秒`,
+                    `文脈の長さ: ${describeChainOrder(settings.chainOrder)}`,
+                    `自動応答するチャンネル: ${settings.allowedChannels.length > 0 ? formatChannelList(settings.allowedChannels) : '（すべて）'}`,
+                    `自動応答しないチャンネル: ${formatChannelList(settings.ignoredChannels)}`,
+                    `クロール元チャンネル: ${formatChannelList(settings.crawlChannels)}`,
+                ].join('\n'),
+                ephemeral: true
+            });
+            break;
+        }
+        case 'probability': {
+            const probability = interaction.options.getNumber('value', true);
+            updateGuildSettings(guildId, { responseProbability: probability });
+            await interaction.reply({ content: `⚙️ ランダム応答の確率を ${Math.round(probability * 100)}% に変更しました。`, ephemeral: true });
+            break;
+        }
+        case 'order': {
+            const order = interaction.options.getInteger('value', true);
+            updateGuildSettings(guildId, { chainOrder: order });
+            await interaction.reply({ content: `⚙️ 文脈の長さを ${describeChainOrder(order)} に変更しました。`, ephemeral: true });
+            break;
+        }
+        case 'cooldown': {
+            const seconds = interaction.options.getInteger('seconds', true);
+            updateGuildSettings(guildId, { responseCooldownSeconds: seconds });
+            await interaction.reply({ content: `⚙️ チャンネルのクールダウンを ${seconds}秒 に変更しました。`, ephemeral: true });
+            break;
+        }
+        case 'ratelimit': {
+            const userCooldown = interaction.options.getInteger('user_cooldown');
+            const maxPerMinute = interaction.options.getInteger('max_per_minute');
+            const botSilence = interaction.options.getInteger('bot_silence');
+            const changes: Partial<GuildSettings> = {};
+            if (userCooldown !== null) changes.userCooldownSeconds = userCooldown;
+            if (maxPerMinute !== null) changes.maxRepliesPerMinute = maxPerMinute;
+            if (botSilence !== null) changes.botSilenceSeconds = botSilence;
+
+            const settings = updateGuildSettings(guildId, changes);
+            await interaction.reply({
+                content: `⚙️ レート制限: ユーザー ${settings.userCooldownSeconds}秒 / 上限 ${settings.maxRepliesPerMinute}回/分 / ボット発言後 ${settings.botSilenceSeconds}秒`,
+                ephemeral: true
+            });
+            break;
+        }
+        case 'channels': {
+            const list = interaction.options.getString('list', true) as 'allowedChannels' | 'ignoredChannels' | 'crawlChannels';
+            const action = interaction.options.getString('action', true);
+            const channel = interaction.options.getChannel('channel');
+
+            let channelIds = getGuildSettings(guildId)[list];
+            if (action === 'clear') {
+                channelIds = [];
+            } else if (!channel) {
+                await interaction.reply({ content: '❌ `channel` を指定してください。', ephemeral: true });
+                return;
+            } else if (action === 'add') {
+                channelIds = channelIds.includes(channel.id) ? channelIds : [...channelIds, channel.id];
+            } else {
+                channelIds = channelIds.filter(id => id !== channel.id);
+            }
+
+            updateGuildSettings(guildId, { [list]: channelIds });
+            await interaction.reply({ content: `⚙️ チャンネル一覧を更新しました: ${formatChannelList(channelIds)}`, ephemeral: true });
+            break;
+        }
+    }
+}
+
+export const configCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('config')
+        .setDescription('サーバーごとの設定を表示・変更します')
+        .addSubcommand(subcommand =>
+            subcommand.setName('view')
+                .setDescription('現在の設定を表示します')
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('probability')
+                .setDescription('ランダム応答の確率を変更します（権限が必要）')
+                .addNumberOption(option =>
+                    option.setName('value')
+                        .setDescription('応答する確率（0〜1）')
+                        .setRequired(true)
+                        .setMinValue(0)
+                        .setMaxValue(1)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('ratelimit')
+                .setDescription('ユーザーごとのクールダウンや応答回数の上限を変更します（権限が必要）')
+                .addIntegerOption(option =>
+                    option.setName('user_cooldown')
+                        .setDescription('同じユーザーに応答する間隔（秒）')
+                        .setRequired(false)
+                        .setMinValue(0)
+                        .setMaxValue(86400)
+                )
+                .addIntegerOption(option =>
+                    option.setName('max_per_minute')
+                        .setDescription('サーバー全体で 1 分間に応答する回数の上限（0 で無制限）')
+                        .setRequired(false)
+                        .setMinValue(0)
+                        .setMaxValue(600)
+                )
+                .addIntegerOption(option =>
+                    option.setName('bot_silence')
+                        .setDescription('ボットが発言してから応答しない時間（秒）')
+                        .setRequired(false)
+                        .setMinValue(0)
+                        .setMaxValue(3600)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('order')
+                .setDescription('文章の生成に使う文脈の長さを変更します（権限が必要）')
+                .addIntegerOption(option =>
+                    option.setName('value')
+                        .setDescription('文脈の長さ')
+                        .setRequired(true)
+                        .addChoices(...CREATIVITY_CHOICES)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('cooldown')
+                .setDescription('同じチャンネルで応答する間隔を変更します（権限が必要）')
+                .addIntegerOption(option =>
+                    option.setName('seconds')
+                        .setDescription('クールダウン（秒）')
+                        .setRequired(true)
+                        .setMinValue(0)
+                        .setMaxValue(86400)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('channels')
+                .setDescription('自動応答・クロールの対象チャンネルを変更します（権限が必要）')
+                .addStringOption(option =>
+                    option.setName('list')
+                        .setDescription('変更する一覧')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: '自動応答するチャンネル', value: 'allowedChannels' },
+                            { name: '自動応答しないチャンネル', value: 'ignoredChannels' },
+                            { name: 'クロール元チャンネル', value: 'crawlChannels' }
+                        )
+                )
+                .addStringOption(option =>
+                    option.setName('action')
+                        .setDescription('操作')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: '追加', value: 'add' },
+                            { name: '削除', value: 'remove' },
+                            { name: 'すべて削除', value: 'clear' }
+                        )
+                )
+                .addChannelOption(option =>
+                    option.setName('channel')
+                        .setDescription('対象のチャンネル')
+                        .addChannelTypes(ChannelType.GuildText)
+                        .setRequired(false)
+                )
+        ),
+    permissions: { probability: 'config', order: 'config', cooldown: 'config', ratelimit: 'config', channels: 'config' },
+    execute: handleConfigCommand,
+};
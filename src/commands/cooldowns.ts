@@ -0,0 +1,40 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { botLastSpokeAt, canAutoRespondIn, channelLastReplyAt, cooldownRemaining, lastSuppression, pendingReplyChannels, recentGuildReplies, userLastReplyAt } from '../rateLimit';
+import { describeAutoResponseMode } from './helpers';
+
+async function handleCooldownsCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { getGuildSettings } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const { guildId, channelId } = interaction;
+    const settings = getGuildSettings(guildId);
+    const now = Date.now();
+    const suppression = lastSuppression.get(channelId);
+    const recentReplies = recentGuildReplies(guildId, now).length;
+
+    await interaction.reply({
+        content: [
+            '⏳ **応答のクールダウン状況**',
+            `自動応答: ${describeAutoResponseMode(settings)}${canAutoRespondIn(settings, channelId) ? '' : '（このチャンネルは対象外）'}`,
+            `チャンネルのクールダウン: 残り${cooldownRemaining(channelLastReplyAt.get(channelId), settings.responseCooldownSeconds, now)}秒`,
+            `あなたのクールダウン: 残り${cooldownRemaining(userLastReplyAt.get(`${guildId}:${interaction.user.id}`), settings.userCooldownSeconds, now)}秒`,
+            `ボット発言後の抑制: 残り${cooldownRemaining(botLastSpokeAt.get(channelId), settings.botSilenceSeconds, now)}秒`,
+            `直近 1 分間の応答: ${recentReplies}${settings.maxRepliesPerMinute > 0 ? ` / ${settings.maxRepliesPerMinute}` : ''}回`,
+            `送信待ちの応答: ${pendingReplyChannels.has(channelId) ? 'あり' : 'なし'}`,
+            `直近の抑制理由: ${suppression ? `${suppression.reason}（<t:${Math.floor(suppression.at / 1000)}:R>）` : '（なし）'}`,
+        ].join('\n'),
+        ephemeral: true
+    });
+}
+
+export const cooldownsCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('cooldowns')
+        .setDescription('このチャンネルで応答が抑制されている理由と残り時間を表示します'),
+    execute: handleCooldownsCommand,
+};
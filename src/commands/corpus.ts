@@ -0,0 +1,113 @@
+import { AttachmentBuilder, ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { Writable } from 'stream';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { decodeCorpusFile, exportCorpus, importCorpus } from '../corpus';
+import { formatBytes } from './helpers';
+
+// Discord に添付・取り込みできるコーパスファイルの大きさの上限
+const MAX_CORPUS_ATTACHMENT_BYTES = 8 * 1024 * 1024;
+const MAX_CORPUS_IMPORT_BYTES = 25 * 1024 * 1024;
+
+async function handleCorpusCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { db } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    if (subcommand === 'export') {
+        await interaction.deferReply({ ephemeral: true });
+
+        const compress = (interaction.options.getString('format') ?? 'gzip') === 'gzip';
+        // 添付できる大きさを超えた時点で書き出しをやめる
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let tooLarge = false;
+        const output = new Writable({
+            write(chunk: Buffer, _encoding, callback) {
+                size += chunk.length;
+                tooLarge = size > MAX_CORPUS_ATTACHMENT_BYTES;
+                if (!tooLarge) chunks.push(chunk);
+                callback(tooLarge ? new Error('Corpus exceeds the attachment size limit.') : null);
+            },
+        });
+        let transitions: number;
+        try {
+            transitions = await exportCorpus(db, guildId, output, compress);
+        } catch (error) {
+            if (!tooLarge) throw error;
+            await interaction.editReply(`❌ コーパスが大きすぎて添付できません（上限 ${formatBytes(MAX_CORPUS_ATTACHMENT_BYTES)}）。サーバー上で CLI（\`pnpm run cli export\`）を使用してください。`);
+            return;
+        }
+        const data = Buffer.concat(chunks);
+
+        const fileName = `corpus-${guildId}-${new Date().toISOString().slice(0, 10)}.jsonl${compress ? '.gz' : ''}`;
+        await interaction.editReply({
+            content: `📦 ${transitions.toLocaleString()} 件の遷移をエクスポートしました。`,
+            files: [new AttachmentBuilder(data, { name: fileName })]
+        });
+        console.log(`Exported ${transitions} transitions of guild ${guildId}.`);
+        return;
+    }
+
+    const attachment = interaction.options.getAttachment('file', true);
+    if (attachment.size > MAX_CORPUS_IMPORT_BYTES) {
+        await interaction.reply({ content: `❌ ファイルが大きすぎます（上限 ${formatBytes(MAX_CORPUS_IMPORT_BYTES)}）。サーバー上で CLI（\`pnpm run cli import\`）を使用してください。`, ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+    try {
+        const response = await fetch(attachment.url);
+        if (!response.ok) {
+            throw new Error(`ファイルをダウンロードできませんでした（HTTP ${response.status}）。`);
+        }
+        const result = importCorpus(db, guildId, decodeCorpusFile(Buffer.from(await response.arrayBuffer())));
+        await interaction.editReply([
+            `📥 ${result.transitions.toLocaleString()} 件の遷移を取り込みました。`,
+            result.skipped > 0 ? `読み取れなかった ${result.skipped.toLocaleString()} 行はスキップしました。` : null,
+            result.keptChannels
+                ? 'このサーバーのバックアップのため、エクスポート時のチャンネルを維持し、既にある遷移は出現回数の多い方に合わせました（二重には数えません）。'
+                : '別のサーバーのコーパスのため、サーバー全体の遷移として取り込み、既にある遷移には出現回数を足しました。',
+        ].filter(line => line !== null).join('\n'));
+        console.log(`Imported ${result.transitions} transitions into guild ${guildId}.`);
+    } catch (error) {
+        console.error('Error importing corpus:', error);
+        await interaction.editReply(`❌ コーパスの取り込みに失敗しました: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+export const corpusCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('corpus')
+        .setDescription('学習したコーパスをファイルとして入出力します')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .addSubcommand(subcommand =>
+            subcommand.setName('export')
+                .setDescription('このサーバーのコーパスをファイルとして出力します')
+                .addStringOption(option =>
+                    option.setName('format')
+                        .setDescription('ファイル形式（デフォルト: gzip）')
+                        .setRequired(false)
+                        .addChoices(
+                            { name: 'gzip 圧縮した JSONL', value: 'gzip' },
+                            { name: 'JSONL', value: 'jsonl' }
+                        )
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('import')
+                .setDescription('コーパスファイルをこのサーバーのコーパスに統合します')
+                .addAttachmentOption(option =>
+                    option.setName('file')
+                        .setDescription('/corpus export で出力したファイル')
+                        .setRequired(true)
+                )
+        ),
+    permissions: 'corpus',
+    execute: handleCorpusCommand,
+};
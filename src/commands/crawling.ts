@@ -0,0 +1,158 @@
+import { ChannelType, ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { CrawlJobRow } from '../types';
+
+async function handleCrawlingCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    switch (interaction.options.getSubcommand()) {
+        case 'start':
+            await handleCrawlingStart(interaction, context);
+            break;
+        case 'status':
+            await handleCrawlingStatus(interaction, context);
+            break;
+        case 'cancel':
+            await handleCrawlingCancel(interaction, context);
+            break;
+    }
+}
+
+async function handleCrawlingStart(interaction: ChatInputCommandInteraction<'cached' | 'raw'>, context: CommandContext) {
+    const { db, dbGet, getGuildSettings, resolveCrawlChannels, formatCrawlJob, getCrawlJob, runCrawlQueue } = context;
+
+    if (!context.getTokenizer()) {
+        await interaction.reply({ content: 'Tokenizer is not ready yet. Please wait a moment and try again.', ephemeral: true });
+        return;
+    }
+
+    const messageCount = interaction.options.getInteger('count') ?? 2000;
+    const includeThreads = interaction.options.getBoolean('include_threads') ?? false;
+    const channelOption = interaction.options.getChannel('channel');
+    const requestedIds = channelOption ? [channelOption.id] : getGuildSettings(interaction.guildId).crawlChannels;
+    if (requestedIds.length === 0) {
+        await interaction.reply({ content: '❌ クロール元チャンネルが設定されていません。`channel` オプションか `/config channels` で指定してください。', ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply();
+
+    const channelIds = await resolveCrawlChannels(interaction.guildId, requestedIds, includeThreads);
+    if (channelIds.length === 0) {
+        await interaction.editReply('❌ このサーバーのテキストチャンネルを指定してください。');
+        return;
+    }
+
+    const now = Date.now();
+    const jobId = db.transaction(() => {
+        const result = db.prepare(`
+            INSERT INTO crawl_jobs (guild_id, requested_by, status, message_limit, status_channel_id, created_at, updated_at)
+            VALUES (?, ?, 'queued', ?, ?, ?, ?)
+        `).run(interaction.guildId, interaction.user.id, messageCount, interaction.channelId, now, now);
+        const insertChannel = db.prepare('INSERT INTO crawl_job_channels (job_id, channel_id, phase) VALUES (?, ?, ?)');
+        for (const channelId of channelIds) {
+            const hasCheckpoint = dbGet('SELECT 1 FROM crawl_checkpoints WHERE channel_id = ?', [channelId]);
+            insertChannel.run(result.lastInsertRowid, channelId, hasCheckpoint ? 'newer' : 'older');
+        }
+        return Number(result.lastInsertRowid);
+    })();
+
+    // 進捗はインタラクションの有効期限（15分）に縛られないよう、通常のメッセージで報告する
+    await interaction.editReply(`🔍 クロールジョブ #${jobId} を登録しました（${channelIds.length}チャンネル、各最大${messageCount}件）。進捗は下のメッセージで確認できます。`);
+    console.log(`Crawl job ${jobId} queued for ${channelIds.length} channels by user: ${interaction.user.tag} (${interaction.user.id})`);
+
+    const statusChannel = interaction.channel;
+    if (statusChannel && 'send' in statusChannel) {
+        const statusMessage = await statusChannel.send(formatCrawlJob(getCrawlJob(jobId)!));
+        db.prepare('UPDATE crawl_jobs SET status_message_id = ? WHERE id = ?').run(statusMessage.id, jobId);
+    }
+
+    void runCrawlQueue();
+}
+
+async function handleCrawlingStatus(interaction: ChatInputCommandInteraction<'cached' | 'raw'>, context: CommandContext) {
+    const { dbAll, formatCrawlJob } = context;
+
+    const jobs: CrawlJobRow[] = dbAll(`
+        SELECT * FROM crawl_jobs WHERE guild_id = ?
+        ORDER BY CASE WHEN status IN ('queued', 'running') THEN 0 ELSE 1 END, id DESC LIMIT 5
+    `, [interaction.guildId]);
+
+    if (jobs.length === 0) {
+        await interaction.reply({ content: '📭 クロールジョブはありません。', ephemeral: true });
+        return;
+    }
+
+    await interaction.reply({ content: jobs.map(formatCrawlJob).join('\n\n'), ephemeral: true });
+}
+
+async function handleCrawlingCancel(interaction: ChatInputCommandInteraction<'cached' | 'raw'>, context: CommandContext) {
+    const { dbGet, setCrawlJobStatus, updateCrawlStatusMessage } = context;
+
+    const jobIdOption = interaction.options.getInteger('job_id');
+    const job: CrawlJobRow | null = jobIdOption !== null
+        ? dbGet("SELECT * FROM crawl_jobs WHERE id = ? AND guild_id = ?", [jobIdOption, interaction.guildId])
+        : dbGet("SELECT * FROM crawl_jobs WHERE guild_id = ? AND status IN ('queued', 'running') ORDER BY id DESC LIMIT 1", [interaction.guildId]);
+
+    if (!job) {
+        await interaction.reply({ content: '❌ 中止できるクロールジョブが見つかりません。', ephemeral: true });
+        return;
+    }
+    if (job.status !== 'queued' && job.status !== 'running') {
+        await interaction.reply({ content: `❌ クロールジョブ #${job.id} は既に終了しています。`, ephemeral: true });
+        return;
+    }
+
+    // 実行中のジョブは次のバッチの前に停止する（取り込み済みのデータは残る）
+    setCrawlJobStatus(job.id, 'cancelled');
+    await updateCrawlStatusMessage(job.id, true);
+    console.log(`Crawl job ${job.id} cancelled by user: ${interaction.user.tag} (${interaction.user.id})`);
+    await interaction.reply(`🛑 クロールジョブ #${job.id} を中止しました。`);
+}
+
+export const crawlingCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('crawling')
+        .setDescription('メッセージをクロールしてマルコフ連鎖データベースを更新します')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .addSubcommand(subcommand =>
+            subcommand.setName('start')
+                .setDescription('クロールジョブをバックグラウンドで開始します')
+                .addIntegerOption(option =>
+                    option.setName('count')
+                        .setDescription('チャンネルごとに取得するメッセージ数（デフォルト: 2000）')
+                        .setRequired(false)
+                        .setMinValue(100)
+                        .setMaxValue(100000)
+                )
+                .addChannelOption(option =>
+                    option.setName('channel')
+                        .setDescription('クロールするチャンネル（省略時は設定済みのクロール元チャンネルすべて）')
+                        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.PublicThread)
+                        .setRequired(false)
+                )
+                .addBooleanOption(option =>
+                    option.setName('include_threads')
+                        .setDescription('チャンネル内のスレッドもクロールするかどうか（デフォルト: いいえ）')
+                        .setRequired(false)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('status')
+                .setDescription('クロールジョブの状況を表示します')
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('cancel')
+                .setDescription('実行中または待機中のクロールジョブを中止します')
+                .addIntegerOption(option =>
+                    option.setName('job_id')
+                        .setDescription('中止するジョブの ID（省略時は最新のジョブ）')
+                        .setRequired(false)
+                )
+        ),
+    permissions: 'crawling',
+    execute: handleCrawlingCommand,
+};
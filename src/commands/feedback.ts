@@ -0,0 +1,114 @@
+import { ChatInputCommandInteraction, EmbedBuilder, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { formatFeedbackEmoji, getFeedbackStats, parseFeedbackEmoji } from '../feedback';
+import { GuildSettings } from '../types';
+
+// 評価の高い文章を表示する件数と、1 件あたりの表示文字数
+const TOP_MESSAGES_LIMIT = 10;
+const PREVIEW_MAX_LENGTH = 60;
+
+function describeFeedbackReactions(settings: GuildSettings): string {
+    return [
+        `👍 高評価: ${formatFeedbackEmoji(settings.feedbackUpEmoji)}`,
+        `👎 低評価: ${formatFeedbackEmoji(settings.feedbackDownEmoji)}`,
+        `🚫 使用禁止（権限が必要）: ${formatFeedbackEmoji(settings.feedbackBlacklistEmoji)}`,
+    ].join('\n');
+}
+
+function truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+async function handleFeedbackCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { db, getGuildSettings, updateGuildSettings } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    switch (subcommand) {
+        case 'reactions': {
+            const changes: Partial<GuildSettings> = {};
+            const up = interaction.options.getString('up');
+            const down = interaction.options.getString('down');
+            const blacklist = interaction.options.getString('blacklist');
+            if (up !== null) changes.feedbackUpEmoji = parseFeedbackEmoji(up);
+            if (down !== null) changes.feedbackDownEmoji = parseFeedbackEmoji(down);
+            if (blacklist !== null) changes.feedbackBlacklistEmoji = parseFeedbackEmoji(blacklist);
+
+            if (Object.values(changes).some(emoji => emoji === '')) {
+                await interaction.reply({ content: '❌ リアクションを入力してください。', ephemeral: true });
+                return;
+            }
+
+            const merged = { ...getGuildSettings(guildId), ...changes };
+            if (new Set([merged.feedbackUpEmoji, merged.feedbackDownEmoji, merged.feedbackBlacklistEmoji]).size < 3) {
+                await interaction.reply({ content: '❌ 高評価・低評価・使用禁止には別々のリアクションを指定してください。', ephemeral: true });
+                return;
+            }
+
+            const settings = updateGuildSettings(guildId, changes);
+            await interaction.reply({ content: `⚙️ 評価に使うリアクション:\n${describeFeedbackReactions(settings)}`, ephemeral: true });
+            break;
+        }
+        case 'stats': {
+            const stats = getFeedbackStats(db, guildId, TOP_MESSAGES_LIMIT);
+            const topLines = stats.topMessages.map((message, index) =>
+                `${index + 1}. **+${message.up - message.down}**（👍 ${message.up} / 👎 ${message.down}） ` +
+                `[${truncate(message.content, PREVIEW_MAX_LENGTH)}](https://discord.com/channels/${guildId}/${message.channel_id}/${message.message_id})`
+            );
+
+            // 文章の一覧はフィールドの文字数の上限を超えうるので説明文に入れる
+            const embed = new EmbedBuilder()
+                .setTitle('⭐ 評価の高い文章')
+                .setColor(0xf1c40f)
+                .setDescription(topLines.length > 0 ? topLines.join('\n') : '（まだ高く評価された文章はありません）')
+                .addFields(
+                    { name: '評価された文章', value: `${stats.ratedMessages}件`, inline: true },
+                    { name: '重みを補正した遷移', value: `${stats.adjustedTransitions}件`, inline: true },
+                    { name: '使用禁止にした文章', value: `${stats.blacklistedMessages}件`, inline: true },
+                    { name: 'リアクション', value: describeFeedbackReactions(getGuildSettings(guildId)) },
+                );
+            await interaction.reply({ embeds: [embed] });
+            break;
+        }
+    }
+}
+
+export const feedbackCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('feedback')
+        .setDescription('生成した文章へのリアクションによる評価を管理します')
+        .addSubcommand(subcommand =>
+            subcommand.setName('reactions')
+                .setDescription('評価に使うリアクションを変更します（権限が必要）')
+                .addStringOption(option =>
+                    option.setName('up')
+                        .setDescription('使われた遷移の重みを上げるリアクション')
+                        .setRequired(false)
+                        .setMaxLength(100)
+                )
+                .addStringOption(option =>
+                    option.setName('down')
+                        .setDescription('使われた遷移の重みを下げるリアクション')
+                        .setRequired(false)
+                        .setMaxLength(100)
+                )
+                .addStringOption(option =>
+                    option.setName('blacklist')
+                        .setDescription('権限を持つメンバーが付けると、その文章を二度と生成しないリアクション')
+                        .setRequired(false)
+                        .setMaxLength(100)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('stats')
+                .setDescription('評価の高い文章と評価の集計を表示します')
+        ),
+    permissions: { reactions: 'config' },
+    execute: handleFeedbackCommand,
+};
@@ -0,0 +1,131 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { ContentFilter, NormalizeMode, getContentFilter } from '../learning';
+
+async function handleFilterCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { db, getBlockedWords } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    switch (subcommand) {
+        case 'block': {
+            const word = interaction.options.getString('word', true).trim();
+            db.prepare('INSERT OR IGNORE INTO blocked_words (guild_id, word, added_by, added_at) VALUES (?, ?, ?, ?)')
+                .run(guildId, word, interaction.user.id, Date.now());
+            await interaction.reply({ content: `🚫 「${word}」を禁止語に追加しました。`, ephemeral: true });
+            break;
+        }
+        case 'unblock': {
+            const word = interaction.options.getString('word', true).trim();
+            const result = db.prepare('DELETE FROM blocked_words WHERE guild_id = ? AND word = ?').run(guildId, word);
+            await interaction.reply({
+                content: result.changes > 0 ? `✅ 「${word}」を禁止語から削除しました。` : `❌ 「${word}」は禁止語に登録されていません。`,
+                ephemeral: true
+            });
+            break;
+        }
+        case 'normalize': {
+            const target = interaction.options.getString('target', true) as keyof ContentFilter;
+            const mode = interaction.options.getString('mode', true) as NormalizeMode;
+            const filter = { ...getContentFilter(db, guildId), [target]: mode };
+            db.prepare(`
+                INSERT OR REPLACE INTO content_filters (guild_id, mentions, urls, code_blocks, emojis) VALUES (?, ?, ?, ?, ?)
+            `).run(guildId, filter.mentions, filter.urls, filter.codeBlocks, filter.emojis);
+            await interaction.reply({ content: `⚙️ 正規化設定を変更しました: ${target} = ${mode}`, ephemeral: true });
+            break;
+        }
+        case 'list': {
+            const filter = getContentFilter(db, guildId);
+            const blockedWords = getBlockedWords(guildId);
+            await interaction.reply({
+                content: [
+                    '🧹 **正規化設定**',
+                    `メンション: ${filter.mentions} / URL: ${filter.urls} / コードブロック: ${filter.codeBlocks} / 絵文字: ${filter.emojis}`,
+                    '🚫 **禁止語**',
+                    blockedWords.length > 0 ? blockedWords.map(word => `\`${word}\``).join(', ') : '（なし）',
+                ].join('\n'),
+                ephemeral: true
+            });
+            break;
+        }
+    }
+}
+
+// Discord が一度に表示できる入力候補の数
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+// 禁止語の削除では、入力中の文字を含む登録済みの禁止語を候補に出す
+async function autocompleteFilterCommand(interaction: AutocompleteInteraction, context: CommandContext) {
+    if (!interaction.inGuild()) return;
+
+    const input = interaction.options.getFocused().toLowerCase();
+    const choices = context.getBlockedWords(interaction.guildId)
+        .filter(word => word.toLowerCase().includes(input))
+        .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+        .map(word => ({ name: word, value: word }));
+    await interaction.respond(choices);
+}
+
+export const filterCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('filter')
+        .setDescription('学習・生成するテキストのフィルターを設定します')
+        .addSubcommand(subcommand =>
+            subcommand.setName('block')
+                .setDescription('生成文に含めない禁止語を追加します（権限が必要）')
+                .addStringOption(option =>
+                    option.setName('word')
+                        .setDescription('禁止する語')
+                        .setRequired(true)
+                        .setMaxLength(100)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('unblock')
+                .setDescription('禁止語を削除します（権限が必要）')
+                .addStringOption(option =>
+                    option.setName('word')
+                        .setDescription('削除する語')
+                        .setRequired(true)
+                        .setAutocomplete(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('normalize')
+                .setDescription('学習前にメンションや URL などをどう扱うかを設定します（権限が必要）')
+                .addStringOption(option =>
+                    option.setName('target')
+                        .setDescription('対象')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: 'メンション', value: 'mentions' },
+                            { name: 'URL・招待リンク', value: 'urls' },
+                            { name: 'コードブロック', value: 'codeBlocks' },
+                            { name: 'カスタム絵文字', value: 'emojis' }
+                        )
+                )
+                .addStringOption(option =>
+                    option.setName('mode')
+                        .setDescription('処理方法')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: '削除', value: 'strip' },
+                            { name: '代替文字列に置換', value: 'placeholder' },
+                            { name: 'そのまま学習', value: 'keep' }
+                        )
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('現在のフィルター設定を表示します')
+        ),
+    permissions: { block: 'config', unblock: 'config', normalize: 'config' },
+    execute: handleFilterCommand,
+    autocomplete: autocompleteFilterCommand,
+};
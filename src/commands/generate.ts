@@ -0,0 +1,136 @@
+import { AttachmentBuilder, ChatInputCommandInteraction, Message, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { CorpusScope } from '../corpus';
+import { recordGeneratedMessage } from '../feedback';
+import { ChainStep, GenerationOptions } from '../generation';
+import { MAX_SEED, createRandomSeed, createSeededRandom } from '../random';
+import { checkRateLimit, recordReply } from '../rateLimit';
+import { CREATIVITY_CHOICES } from './helpers';
+
+// Discord のメッセージの文字数の上限（超える場合は連鎖の説明をファイルで送る）
+const MESSAGE_MAX_LENGTH = 2000;
+
+// 評価による倍率を掛けた重みは小数になるので、小数第 2 位までで表示する
+function formatWeight(weight: number): string {
+    return String(Math.round(weight * 100) / 100);
+}
+
+// 連鎖の 1 ステップを 1 行で表す（backward の文脈は文の順に戻して表示する）
+function formatChainStep(step: ChainStep, index: number): string {
+    const detail = `（候補 ${step.candidates} 件、重み ${formatWeight(step.weight)}/${formatWeight(step.totalWeight)}）`;
+    if (step.direction === 'forward') {
+        return `${index + 1}. [${step.prefix.join(' | ')}] → ${step.chosen}${detail}`;
+    }
+    return `${index + 1}. ${step.chosen} ← [${[...step.prefix].reverse().join(' | ')}]${detail}`;
+}
+
+async function handleGenerateCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { getGuildSettings, generateWithBlocklist, generateMarkovSentence, generateResponseFromMessage } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const maxWords = interaction.options.getInteger('length') ?? 50;
+    const inputText = interaction.options.getString('input');
+    const order = interaction.options.getInteger('creativity') ?? undefined;
+    const seed = interaction.options.getInteger('seed') ?? createRandomSeed();
+    const explain = interaction.options.getBoolean('explain') ?? false;
+    const scope: CorpusScope = interaction.options.getString('scope') === 'channel'
+        ? { guildId: interaction.guildId, channelId: interaction.channelId }
+        : { guildId: interaction.guildId };
+
+    const rateLimit = checkRateLimit(getGuildSettings(interaction.guildId), interaction.guildId, interaction.channelId, interaction.user.id);
+    if (!rateLimit.allowed) {
+        await interaction.reply({ content: `⏳ ${rateLimit.reason}。しばらくしてから再度お試しください。`, ephemeral: true });
+        return;
+    }
+    recordReply(interaction.guildId, interaction.channelId, interaction.user.id);
+    
+    await interaction.deferReply();
+    
+    try {
+        let sentence: string;
+        // 同じシード・同じオプション・同じコーパスなら同じ文章になる（禁止語による再生成も同じ乱数列で続ける）
+        const trace: ChainStep[] = [];
+        const options: GenerationOptions = { random: createSeededRandom(seed), trace };
+        
+        if (inputText) {
+            // 入力テキストを元に応答生成
+            sentence = await generateWithBlocklist(scope.guildId, () => generateResponseFromMessage(inputText, scope, maxWords, order, options), trace);
+        } else {
+            // ランダム生成
+            sentence = await generateWithBlocklist(scope.guildId, () => generateMarkovSentence(scope, maxWords, order, options), trace);
+        }
+        
+        const content = `🤖 生成された文章:\n\n${sentence}\n\n🎲 シード: ${seed}`;
+        let reply: Message;
+        if (!explain) {
+            reply = await interaction.editReply(content);
+        } else {
+            const explanation = trace.length > 0 ? trace.map(formatChainStep).join('\n') : '（連鎖をたどれませんでした）';
+            const explained = `${content}\n\n🔍 たどった連鎖（文脈 → 選んだ単語）:\n\`\`\`\n${explanation}\n\`\`\``;
+            if (explained.length <= MESSAGE_MAX_LENGTH) {
+                reply = await interaction.editReply(explained);
+            } else {
+                reply = await interaction.editReply({
+                    content: `${content}\n\n🔍 たどった連鎖は添付ファイルを参照してください。`,
+                    files: [new AttachmentBuilder(Buffer.from(explanation, 'utf8'), { name: `chain-${seed}.txt` })],
+                });
+            }
+        }
+
+        // リアクションで評価できるよう、たどった遷移を記録する
+        recordGeneratedMessage(context.db, { id: reply.id, guildId: interaction.guildId, channelId: interaction.channelId }, sentence, 'generate', trace);
+    } catch (error) {
+        console.error('Error generating sentence:', error);
+        await interaction.editReply('❌ 文章生成中にエラーが発生しました。');
+    }
+}
+
+export const generateCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('generate')
+        .setDescription('マルコフ連鎖を使用して文章を生成します')
+        .addIntegerOption(option =>
+            option.setName('length')
+                .setDescription('生成する最大単語数（デフォルト: 50）')
+                .setRequired(false)
+                .setMinValue(10)
+                .setMaxValue(200)
+        )
+        .addStringOption(option =>
+            option.setName('input')
+                .setDescription('この文章を元に応答を生成します（省略時はランダム生成）')
+                .setRequired(false)
+        )
+        .addStringOption(option =>
+            option.setName('scope')
+                .setDescription('使用するコーパスの範囲（デフォルト: サーバー全体）')
+                .setRequired(false)
+                .addChoices(
+                    { name: 'サーバー全体', value: 'guild' },
+                    { name: 'このチャンネルのみ', value: 'channel' }
+                )
+        )
+        .addIntegerOption(option =>
+            option.setName('creativity')
+                .setDescription('文脈の長さ（省略時はサーバー設定の次数）')
+                .setRequired(false)
+                .addChoices(...CREATIVITY_CHOICES)
+        )
+        .addIntegerOption(option =>
+            option.setName('seed')
+                .setDescription('乱数のシード（同じシード・オプションで同じ文章を再現します）')
+                .setRequired(false)
+                .setMinValue(0)
+                .setMaxValue(MAX_SEED)
+        )
+        .addBooleanOption(option =>
+            option.setName('explain')
+                .setDescription('たどった連鎖（文脈・候補の数・選んだ単語）を表示します')
+                .setRequired(false)
+        ),
+    execute: handleGenerateCommand,
+};
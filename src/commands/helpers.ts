@@ -0,0 +1,39 @@
+import { GuildSettings } from '../types';
+
+// 文脈の長さの選択肢（短いほど意外な文章になる）
+export const CREATIVITY_CHOICES = [
+    { name: '1語（とても自由）', value: 1 },
+    { name: '2語（標準）', value: 2 },
+    { name: '3語（控えめ）', value: 3 },
+    { name: '4語（ほぼ原文通り）', value: 4 },
+];
+
+export function describeChainOrder(order: number): string {
+    return CREATIVITY_CHOICES.find(choice => choice.value === order)?.name ?? `${order}語`;
+}
+
+export function describeAutoResponseMode(settings: GuildSettings): string {
+    const modeDescriptions = {
+        'mention_only': '🔔 メンション時のみ自動応答',
+        'random': `🎲 ランダム自動応答有効（${Math.round(settings.responseProbability * 100)}%の確率 + メンション時）`,
+        'disabled': '🔕 自動応答無効'
+    };
+    return modeDescriptions[settings.autoResponseMode];
+}
+
+// チャンネル ID の一覧を表示用の文字列にする
+export function formatChannelList(channelIds: string[]): string {
+    return channelIds.length > 0 ? channelIds.map(id => `<#${id}>`).join(', ') : '（なし）';
+}
+
+// バイト数を読みやすい単位に変換する
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unitIndex = 0;
+    while (value >= 1024 && unitIndex < units.length - 1) {
+        value /= 1024;
+        unitIndex++;
+    }
+    return `${value.toFixed(unitIndex === 0 ? 0 : 1)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,127 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, TextBasedChannel, Webhook } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { CorpusScope } from '../corpus';
+import { checkRateLimit, recordReply } from '../rateLimit';
+
+// 模倣した文章は、チャンネルごとに 1 つ作成した Webhook からメンバーの名前とアイコンで投稿する
+const IMITATION_WEBHOOK_NAME = 'Markov Imitation';
+const IMITATION_NAME_SUFFIX = '（ボットによる模倣）';
+const MAX_WEBHOOK_USERNAME_LENGTH = 80;
+const imitationWebhooks = new Map<string, Webhook>();
+
+// ボットが作成した模倣用の Webhook を取得する（なければ作成する）。スレッドの場合は親チャンネルの Webhook を使う
+async function getImitationWebhook(channel: TextBasedChannel): Promise<{ webhook: Webhook; threadId?: string }> {
+    const target = channel.isThread() ? channel.parent : channel;
+    const threadId = channel.isThread() ? channel.id : undefined;
+    if (!target || !('createWebhook' in target)) {
+        throw new Error(`Channel ${channel.id} does not support webhooks`);
+    }
+
+    let webhook = imitationWebhooks.get(target.id);
+    if (!webhook) {
+        const webhooks = await target.fetchWebhooks();
+        webhook = webhooks.find(hook => hook.owner?.id === channel.client.user.id && hook.name === IMITATION_WEBHOOK_NAME)
+            ?? await target.createWebhook({ name: IMITATION_WEBHOOK_NAME, reason: '/imitate の投稿用' });
+        imitationWebhooks.set(target.id, webhook);
+    }
+    return { webhook, threadId };
+}
+
+async function handleImitateCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { dbGet, getGuildSettings, imitationConsents, generateWithBlocklist, generateMarkovSentence, generateResponseFromMessage } = context;
+
+    if (!interaction.inGuild() || !interaction.channel) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const targetUser = interaction.options.getUser('user', true);
+    const maxWords = interaction.options.getInteger('length') ?? 50;
+    const inputText = interaction.options.getString('input');
+    const scope: CorpusScope = { guildId: interaction.guildId, authorId: targetUser.id };
+
+    // 本人が許可していないメンバーは模倣しない
+    if (!imitationConsents.has(targetUser.id)) {
+        await interaction.reply({
+            content: `🚫 ${targetUser} は模倣を許可していません。本人が \`/privacy imitation allowed:True\` を実行すると模倣できるようになります。`,
+            ephemeral: true,
+            allowedMentions: { parse: [] }
+        });
+        return;
+    }
+
+    const member = await interaction.guild?.members.fetch(targetUser.id).catch(() => null);
+    if (!member) {
+        await interaction.reply({ content: '❌ このサーバーのメンバーのみ模倣できます。', ephemeral: true });
+        return;
+    }
+
+    const hasSource = dbGet(
+        'SELECT 1 FROM chain_sources JOIN markov_chain ON markov_chain.id = chain_sources.chain_id WHERE chain_sources.author_id = ? AND markov_chain.guild_id = ? LIMIT 1',
+        [targetUser.id, interaction.guildId]
+    );
+    if (!hasSource) {
+        await interaction.reply({ content: `❌ ${member.displayName} さんのメッセージから学習したデータがありません。`, ephemeral: true });
+        return;
+    }
+
+    const rateLimit = checkRateLimit(getGuildSettings(interaction.guildId), interaction.guildId, interaction.channelId, interaction.user.id);
+    if (!rateLimit.allowed) {
+        await interaction.reply({ content: `⏳ ${rateLimit.reason}。しばらくしてから再度お試しください。`, ephemeral: true });
+        return;
+    }
+    recordReply(interaction.guildId, interaction.channelId, interaction.user.id);
+
+    await interaction.deferReply({ ephemeral: true });
+
+    let webhookChannelId: string | undefined;
+    try {
+        const sentence = inputText
+            ? await generateWithBlocklist(scope.guildId, () => generateResponseFromMessage(inputText, scope, maxWords))
+            : await generateWithBlocklist(scope.guildId, () => generateMarkovSentence(scope, maxWords));
+
+        const { webhook, threadId } = await getImitationWebhook(interaction.channel);
+        webhookChannelId = webhook.channelId;
+        await webhook.send({
+            content: sentence,
+            username: member.displayName.slice(0, MAX_WEBHOOK_USERNAME_LENGTH - IMITATION_NAME_SUFFIX.length) + IMITATION_NAME_SUFFIX,
+            avatarURL: member.displayAvatarURL(),
+            threadId,
+            allowedMentions: { parse: [] }
+        });
+
+        console.log(`Imitated user ${targetUser.id} in channel ${interaction.channelId} by user: ${interaction.user.tag} (${interaction.user.id})`);
+        await interaction.editReply(`🎭 ${member.displayName} さんを模倣した文章を投稿しました。`);
+    } catch (error) {
+        console.error('Error imitating user:', error);
+        // 削除された Webhook を使い続けないよう、次回は取得し直す
+        if (webhookChannelId) {
+            imitationWebhooks.delete(webhookChannelId);
+        }
+        await interaction.editReply('❌ 模倣した文章を投稿できませんでした。ボットに「ウェブフックの管理」権限があるか確認してください。');
+    }
+}
+
+export const imitateCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('imitate')
+        .setDescription('メンバーのメッセージから学習した内容だけで、そのメンバーを模倣した文章を投稿します')
+        .addUserOption(option =>
+            option.setName('user')
+                .setDescription('模倣するメンバー（本人が /privacy imitation で許可している必要があります）')
+                .setRequired(true)
+        )
+        .addIntegerOption(option =>
+            option.setName('length')
+                .setDescription('生成する最大単語数（デフォルト: 50）')
+                .setRequired(false)
+                .setMinValue(10)
+                .setMaxValue(200)
+        )
+        .addStringOption(option =>
+            option.setName('input')
+                .setDescription('この文章を元に応答を生成します（省略時はランダム生成）')
+                .setRequired(false)
+        ),
+    execute: handleImitateCommand,
+};
@@ -0,0 +1,35 @@
+import { CommandModule } from '../commandRegistry';
+import { crawlingCommand } from './crawling';
+import { generateCommand } from './generate';
+import { feedbackCommand } from './feedback';
+import { imitateCommand } from './imitate';
+import { statsCommand } from './stats';
+import { learningCommand } from './learning';
+import { privacyCommand } from './privacy';
+import { filterCommand } from './filter';
+import { configCommand } from './config';
+import { cooldownsCommand } from './cooldowns';
+import { autoresponseCommand } from './autoresponse';
+import { afkCommand } from './afk';
+import { corpusCommand } from './corpus';
+import { voicestatsCommand } from './voicestats';
+import { permissionsCommand } from './permissions';
+
+// 登録するコマンドの一覧（この順に Discord へ登録する）
+export const commandModules: CommandModule[] = [
+    crawlingCommand,
+    generateCommand,
+    feedbackCommand,
+    imitateCommand,
+    statsCommand,
+    learningCommand,
+    privacyCommand,
+    filterCommand,
+    configCommand,
+    cooldownsCommand,
+    autoresponseCommand,
+    afkCommand,
+    corpusCommand,
+    voicestatsCommand,
+    permissionsCommand,
+];
@@ -0,0 +1,45 @@
+import { ChannelType, ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+
+async function handleLearningCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { db, learningChannels } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const enabled = interaction.options.getBoolean('enabled', true);
+    const channelId = interaction.options.getChannel('channel')?.id ?? interaction.channelId;
+
+    if (enabled) {
+        db.prepare('INSERT OR REPLACE INTO learning_channels (channel_id, guild_id, enabled_by, enabled_at) VALUES (?, ?, ?, ?)')
+            .run(channelId, interaction.guildId, interaction.user.id, Date.now());
+        learningChannels.add(channelId);
+        await interaction.reply(`📚 <#${channelId}> のリアルタイム学習を有効にしました。新しいメッセージを自動で学習します。`);
+    } else {
+        db.prepare('DELETE FROM learning_channels WHERE channel_id = ?').run(channelId);
+        learningChannels.delete(channelId);
+        await interaction.reply(`📕 <#${channelId}> のリアルタイム学習を無効にしました。`);
+    }
+}
+
+export const learningCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('learning')
+        .setDescription('チャンネルのリアルタイム学習を切り替えます')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .addBooleanOption(option =>
+            option.setName('enabled')
+                .setDescription('新しいメッセージを自動で学習するかどうか')
+                .setRequired(true)
+        )
+        .addChannelOption(option =>
+            option.setName('channel')
+                .setDescription('対象のチャンネル（省略時はこのチャンネル）')
+                .addChannelTypes(ChannelType.GuildText)
+                .setRequired(false)
+        ),
+    permissions: 'crawling',
+    execute: handleLearningCommand,
+};
@@ -0,0 +1,84 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { GRANTABLE_PERMISSION_CHOICES, PERMISSION_RULES, PermissionKey } from '../permissions';
+
+async function handlePermissionsCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { db, dbAll } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    switch (subcommand) {
+        case 'add': {
+            const key = interaction.options.getString('permission', true) as PermissionKey;
+            const role = interaction.options.getRole('role', true);
+            db.prepare('INSERT OR IGNORE INTO command_permissions (guild_id, permission_key, role_id) VALUES (?, ?, ?)').run(guildId, key, role.id);
+            await interaction.reply({ content: `🔑 <@&${role.id}> に「${PERMISSION_RULES[key].label}」の権限を付与しました。`, ephemeral: true });
+            break;
+        }
+        case 'remove': {
+            const key = interaction.options.getString('permission', true) as PermissionKey;
+            const role = interaction.options.getRole('role', true);
+            db.prepare('DELETE FROM command_permissions WHERE guild_id = ? AND permission_key = ? AND role_id = ?').run(guildId, key, role.id);
+            await interaction.reply({ content: `🔑 <@&${role.id}> から「${PERMISSION_RULES[key].label}」の権限を外しました。`, ephemeral: true });
+            break;
+        }
+        case 'list': {
+            const rows = dbAll('SELECT permission_key, role_id FROM command_permissions WHERE guild_id = ?', [guildId]);
+            const lines = GRANTABLE_PERMISSION_CHOICES.map(({ name, value }) => {
+                const roleIds = rows.filter(row => row.permission_key === value).map(row => `<@&${row.role_id}>`);
+                return `${name}: ${roleIds.length > 0 ? roleIds.join(', ') : '（ロール指定なし）'}`;
+            });
+            await interaction.reply({ content: ['🔑 **権限設定**', ...lines].join('\n'), ephemeral: true });
+            break;
+        }
+    }
+}
+
+export const permissionsCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('permissions')
+        .setDescription('管理系コマンドを実行できるロールを設定します')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .addSubcommand(subcommand =>
+            subcommand.setName('add')
+                .setDescription('ロールに権限を付与します')
+                .addStringOption(option =>
+                    option.setName('permission')
+                        .setDescription('付与する権限')
+                        .setRequired(true)
+                        .addChoices(...GRANTABLE_PERMISSION_CHOICES)
+                )
+                .addRoleOption(option =>
+                    option.setName('role')
+                        .setDescription('対象のロール')
+                        .setRequired(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('remove')
+                .setDescription('ロールから権限を外します')
+                .addStringOption(option =>
+                    option.setName('permission')
+                        .setDescription('外す権限')
+                        .setRequired(true)
+                        .addChoices(...GRANTABLE_PERMISSION_CHOICES)
+                )
+                .addRoleOption(option =>
+                    option.setName('role')
+                        .setDescription('対象のロール')
+                        .setRequired(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('現在の権限設定を表示します')
+        ),
+    permissions: 'permissions',
+    execute: handlePermissionsCommand,
+};
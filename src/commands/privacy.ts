@@ -0,0 +1,114 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+
+async function handlePrivacyCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { db, forgetSources, imitationConsents, optedOutUsers } = context;
+
+    const subcommand = interaction.options.getSubcommand();
+    const userId = interaction.user.id;
+
+    switch (subcommand) {
+        case 'optout':
+            db.prepare('INSERT OR IGNORE INTO privacy_optouts (user_id, opted_out_at) VALUES (?, ?)').run(userId, Date.now());
+            optedOutUsers.add(userId);
+            await interaction.reply({
+                content: '🔒 今後あなたのメッセージは学習されません。既に学習されたデータを削除するには `/privacy forget` を使用してください。',
+                ephemeral: true
+            });
+            break;
+        case 'optin':
+            db.prepare('DELETE FROM privacy_optouts WHERE user_id = ?').run(userId);
+            optedOutUsers.delete(userId);
+            await interaction.reply({ content: '🔓 あなたのメッセージの学習を再開します。', ephemeral: true });
+            break;
+        case 'imitation':
+            if (interaction.options.getBoolean('allowed', true)) {
+                db.prepare('INSERT OR IGNORE INTO imitation_consents (user_id, consented_at) VALUES (?, ?)').run(userId, Date.now());
+                imitationConsents.add(userId);
+                await interaction.reply({ content: '🎭 `/imitate` であなたを模倣することを許可しました。', ephemeral: true });
+            } else {
+                db.prepare('DELETE FROM imitation_consents WHERE user_id = ?').run(userId);
+                imitationConsents.delete(userId);
+                await interaction.reply({ content: '🚫 `/imitate` であなたを模倣することを禁止しました。', ephemeral: true });
+            }
+            break;
+        case 'forget': {
+            const result = forgetSources('author_id', userId);
+            console.log(`User ${userId} forgot ${result.removedTransitions} transitions (${result.deletedChains} chains deleted).`);
+            await interaction.reply({
+                content: `🗑️ あなたのメッセージから学習した ${result.removedTransitions} 件の遷移を削除しました。`,
+                ephemeral: true
+            });
+            break;
+        }
+        case 'purge': {
+            const targetUser = interaction.options.getUser('user');
+            const messageId = interaction.options.getString('message_id');
+            if (!targetUser && !messageId) {
+                await interaction.reply({ content: '❌ `user` または `message_id` を指定してください。', ephemeral: true });
+                return;
+            }
+
+            // 他のサーバーのコーパスは削除しない
+            const guildId = interaction.guildId;
+            if (!guildId) {
+                await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+                return;
+            }
+
+            let removedTransitions = 0;
+            if (targetUser) {
+                removedTransitions += forgetSources('author_id', targetUser.id, guildId).removedTransitions;
+            }
+            if (messageId) {
+                removedTransitions += forgetSources('message_id', messageId, guildId).removedTransitions;
+            }
+            console.log(`Purged ${removedTransitions} transitions by user: ${interaction.user.tag} (${interaction.user.id})`);
+            await interaction.reply({ content: `🗑️ ${removedTransitions} 件の遷移を削除しました。`, ephemeral: true });
+            break;
+        }
+    }
+}
+
+export const privacyCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('privacy')
+        .setDescription('自分のメッセージの学習に関する設定を行います')
+        .addSubcommand(subcommand =>
+            subcommand.setName('optout')
+                .setDescription('今後、自分のメッセージを学習させないようにします')
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('optin')
+                .setDescription('自分のメッセージの学習を再び許可します')
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('forget')
+                .setDescription('自分のメッセージから学習したデータを削除します')
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('imitation')
+                .setDescription('/imitate で自分を模倣することを許可するかどうかを設定します')
+                .addBooleanOption(option =>
+                    option.setName('allowed')
+                        .setDescription('模倣を許可するかどうか')
+                        .setRequired(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('purge')
+                .setDescription('指定したユーザーまたはメッセージから学習したデータを削除します（権限が必要）')
+                .addUserOption(option =>
+                    option.setName('user')
+                        .setDescription('データを削除するユーザー')
+                        .setRequired(false)
+                )
+                .addStringOption(option =>
+                    option.setName('message_id')
+                        .setDescription('データを削除するメッセージの ID')
+                        .setRequired(false)
+                )
+        ),
+    permissions: { purge: 'data_deletion' },
+    execute: handlePrivacyCommand,
+};
@@ -0,0 +1,138 @@
+import { ChatInputCommandInteraction, EmbedBuilder, SlashCommandBuilder } from 'discord.js';
+import fs from 'fs';
+import { CommandContext, CommandModule } from '../commandRegistry';
+import { BOS_TOKEN, EOS_TOKEN } from '../learning';
+import { formatBytes } from './helpers';
+
+// 頻出語から除外する品詞（助詞・助動詞・記号）
+const STATS_EXCLUDED_POS = new Set(['助詞', '助動詞', '記号']);
+
+// 1 つの prefix から続く suffix の種類数（分岐数）の区分
+const BRANCHING_BUCKETS: { label: string; min: number; max: number }[] = [
+    { label: '1', min: 1, max: 1 },
+    { label: '2', min: 2, max: 2 },
+    { label: '3-5', min: 3, max: 5 },
+    { label: '6-10', min: 6, max: 10 },
+    { label: '11+', min: 11, max: Infinity },
+];
+
+// 品詞が助詞などではない頻出語を取得する
+function getTopContentWords(context: CommandContext, guildId: string, limit: number): { word: string; count: number }[] {
+    const tokenizer = context.getTokenizer();
+    const candidates: { word: string; count: number }[] = context.dbAll(`
+        SELECT suffix AS word, SUM(count) AS count FROM markov_chain
+        WHERE guild_id = ? AND direction = 'forward' AND chain_order = 1 AND suffix NOT IN (?, ?)
+        GROUP BY suffix ORDER BY count DESC LIMIT 200
+    `, [guildId, BOS_TOKEN, EOS_TOKEN]);
+
+    return candidates.filter(({ word }) => {
+        if (!word.trim()) return false;
+        const [token] = tokenizer ? tokenizer.tokenize(word) : [];
+        return !token || !STATS_EXCLUDED_POS.has(token.pos);
+    }).slice(0, limit);
+}
+
+async function handleStatsCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    const { dbPath, dbGet, dbAll, getGuildSettings } = context;
+
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply();
+
+    // 遷移数などは単語の位置ごとに 1 つずつ記録される 1 次の連鎖で数え、分岐数は設定の次数で数える
+    const { guildId } = interaction;
+    const { chainOrder } = getGuildSettings(guildId);
+    const totals = dbGet(`
+        SELECT COALESCE(SUM(count), 0) AS transitions, COUNT(DISTINCT suffix) AS vocabulary
+        FROM markov_chain WHERE guild_id = ? AND direction = 'forward' AND chain_order = 1
+    `, [guildId]);
+    const chains = dbGet(
+        "SELECT COUNT(*) AS count FROM markov_chain WHERE guild_id = ? AND direction = 'forward' AND chain_order = ?",
+        [guildId, chainOrder]
+    );
+    // 分岐数ごとの prefix の数
+    const branching = dbAll(`
+        SELECT branches, COUNT(*) AS prefixes FROM (
+            SELECT COUNT(DISTINCT suffix) AS branches FROM markov_chain
+            WHERE guild_id = ? AND direction = 'forward' AND chain_order = ? GROUP BY prefix
+        ) GROUP BY branches
+    `, [guildId, chainOrder]);
+    const lastCrawl = dbGet('SELECT MAX(last_crawled_at) AS time FROM crawl_checkpoints WHERE guild_id = ?', [guildId]);
+    const topChannels = dbAll(`
+        SELECT channel_id, SUM(count) AS count FROM markov_chain
+        WHERE guild_id = ? AND direction = 'forward' AND chain_order = 1 GROUP BY channel_id ORDER BY count DESC LIMIT 5
+    `, [guildId]);
+    const topUsers = dbAll(`
+        SELECT s.author_id, COUNT(*) AS count FROM chain_sources s
+        JOIN markov_chain m ON m.id = s.chain_id
+        WHERE m.guild_id = ? AND m.direction = 'forward' AND m.chain_order = 1 GROUP BY s.author_id ORDER BY count DESC LIMIT 5
+    `, [guildId]);
+
+    if (!totals || totals.transitions === 0) {
+        await interaction.editReply('📊 このサーバーにはまだ学習データがありません。`/crawling` で学習してください。');
+        return;
+    }
+
+    // 境界トークンは語彙に含めない
+    const boundaryCount = dbGet(
+        "SELECT COUNT(DISTINCT suffix) AS count FROM markov_chain WHERE guild_id = ? AND direction = 'forward' AND chain_order = 1 AND suffix IN (?, ?)",
+        [guildId, BOS_TOKEN, EOS_TOKEN]
+    );
+    const vocabulary = totals.vocabulary - (boundaryCount?.count ?? 0);
+
+    // 設定した次数の連鎖がまだない場合（次数を上げた直後など）は割合・平均を「—」と表示する
+    const prefixTotal = branching.reduce((sum, row) => sum + row.prefixes, 0);
+    const branchingLines = BRANCHING_BUCKETS.map(bucket => {
+        const prefixCount = branching
+            .filter(row => row.branches >= bucket.min && row.branches <= bucket.max)
+            .reduce((sum, row) => sum + row.prefixes, 0);
+        const percentage = prefixTotal > 0 ? `${((prefixCount / prefixTotal) * 100).toFixed(1)}%` : '—';
+        return `${bucket.label}: ${prefixCount.toLocaleString()} (${percentage})`;
+    });
+    const averageBranching = prefixTotal > 0
+        ? (branching.reduce((sum, row) => sum + row.branches * row.prefixes, 0) / prefixTotal).toFixed(2)
+        : '—';
+
+    const topWords = getTopContentWords(context, guildId, 10);
+    const databaseSize = fs.existsSync(dbPath) ? fs.statSync(dbPath).size : 0;
+
+    const embed = new EmbedBuilder()
+        .setTitle('📊 マルコフ連鎖データベースの統計')
+        .setColor(0x5865f2)
+        .addFields(
+            { name: '遷移の総数', value: totals.transitions.toLocaleString(), inline: true },
+            { name: `連鎖の種類（${chainOrder}次）`, value: (chains?.count ?? 0).toLocaleString(), inline: true },
+            { name: 'prefix の種類', value: prefixTotal.toLocaleString(), inline: true },
+            { name: '語彙数', value: vocabulary.toLocaleString(), inline: true },
+            { name: 'データベースサイズ', value: formatBytes(databaseSize), inline: true },
+            { name: '最終クロール', value: lastCrawl?.time ? `<t:${Math.floor(lastCrawl.time / 1000)}:R>` : '未実行', inline: true },
+            {
+                name: '頻出語（助詞・助動詞・記号を除く）',
+                value: topWords.length > 0 ? topWords.map(({ word, count }, i) => `${i + 1}. ${word} (${count})`).join('\n') : '（なし）'
+            },
+            { name: `分岐数の分布（平均 ${averageBranching}）`, value: branchingLines.join('\n') },
+            {
+                name: 'チャンネル別の遷移数',
+                value: topChannels.map(row => `${row.channel_id ? `<#${row.channel_id}>` : '（不明）'}: ${row.count.toLocaleString()}`).join('\n'),
+                inline: true
+            },
+            {
+                name: 'ユーザー別の遷移数',
+                value: topUsers.length > 0 ? topUsers.map(row => `<@${row.author_id}>: ${row.count.toLocaleString()}`).join('\n') : '（記録なし）',
+                inline: true
+            }
+        )
+        .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+}
+
+export const statsCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('stats')
+        .setDescription('データベースの統計情報を表示します'),
+    execute: handleStatsCommand,
+};
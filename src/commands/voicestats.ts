@@ -0,0 +1,191 @@
+import { ChannelType, ChatInputCommandInteraction, EmbedBuilder, SlashCommandBuilder } from 'discord.js';
+import { CommandContext, CommandModule } from '../commandRegistry';
+
+// ボイス統計の集計期間
+type VoicePeriod = 'week' | 'month' | 'all';
+
+const VOICE_PERIODS: Record<VoicePeriod, { label: string; days: number | null }> = {
+    week: { label: '過去7日間', days: 7 },
+    month: { label: '過去30日間', days: 30 },
+    all: { label: '全期間', days: null },
+};
+
+const VOICE_PERIOD_CHOICES = (Object.keys(VOICE_PERIODS) as VoicePeriod[])
+    .map(period => ({ name: VOICE_PERIODS[period].label, value: period }));
+
+// ミリ秒を「○時間○分」の形式にする
+function formatDuration(ms: number): string {
+    const totalMinutes = Math.floor(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}時間${minutes}分` : `${minutes}分`;
+}
+
+interface VoiceTimeRow {
+    id?: string; // groupBy の列の値
+    duration: number; // 期間内の滞在時間（ミリ秒）
+    active: number; // そのうちミュートしていない時間
+    joins: number; // 期間内に参加した回数
+    users: number;
+}
+
+// 期間内の滞在時間を集計する（期間の境界をまたぐ記録は期間内の部分だけを数える）
+function aggregateVoiceTime(
+    context: CommandContext,
+    guildId: string,
+    since: number,
+    filter: { column: 'user_id' | 'channel_id'; value: string } | null,
+    groupBy: 'user_id' | 'channel_id' | null = null,
+    orderBy: 'duration' | 'active' = 'duration',
+    limit = 10
+): VoiceTimeRow[] {
+    const now = Date.now();
+    return context.dbAll(`
+        SELECT ${groupBy ? `${groupBy} AS id, ` : ''}COALESCE(SUM(duration), 0) AS duration,
+            COALESCE(SUM(CASE WHEN muted = 0 THEN duration ELSE 0 END), 0) AS active,
+            COALESCE(SUM(CASE WHEN joined = 1 AND started_at >= ? THEN 1 ELSE 0 END), 0) AS joins,
+            COUNT(DISTINCT user_id) AS users
+        FROM (
+            SELECT user_id, channel_id, muted, joined, started_at,
+                MAX(0, MIN(COALESCE(ended_at, ?), ?) - MAX(started_at, ?)) AS duration
+            FROM voice_sessions
+            WHERE guild_id = ? AND (ended_at IS NULL OR ended_at > ?) ${filter ? `AND ${filter.column} = ?` : ''}
+        )
+        ${groupBy ? `GROUP BY ${groupBy} HAVING SUM(duration) > 0 ORDER BY ${orderBy} DESC LIMIT ?` : ''}
+    `, [since, now, now, since, guildId, since, ...(filter ? [filter.value] : []), ...(groupBy ? [limit] : [])]);
+}
+
+async function handleVoiceStatsCommand(interaction: ChatInputCommandInteraction, context: CommandContext) {
+    if (!interaction.inGuild()) {
+        await interaction.reply({ content: '❌ このコマンドはサーバー内でのみ実行できます。', ephemeral: true });
+        return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+    const period = (interaction.options.getString('period') ?? (subcommand === 'leaderboard' ? 'week' : 'all')) as VoicePeriod;
+    const { label, days } = VOICE_PERIODS[period];
+    const since = days === null ? 0 : Date.now() - days * 24 * 60 * 60 * 1000;
+
+    switch (subcommand) {
+        case 'user': {
+            const user = interaction.options.getUser('user') ?? interaction.user;
+            const [totals] = aggregateVoiceTime(context, guildId, since, { column: 'user_id', value: user.id });
+            const channels = aggregateVoiceTime(context, guildId, since, { column: 'user_id', value: user.id }, 'channel_id', 'duration', 5);
+
+            const embed = new EmbedBuilder()
+                .setTitle(`🎙️ ${user.username} のボイス統計（${label}）`)
+                .setColor(0x5865f2)
+                .addFields(
+                    { name: '滞在時間', value: formatDuration(totals?.duration ?? 0), inline: true },
+                    { name: 'ミュートしていない時間', value: formatDuration(totals?.active ?? 0), inline: true },
+                    { name: '参加回数', value: (totals?.joins ?? 0).toLocaleString(), inline: true },
+                    {
+                        name: 'よく使うチャンネル',
+                        value: channels.length > 0 ? channels.map((row, i) => `${i + 1}. <#${row.id}> (${formatDuration(row.duration)})`).join('\n') : '（なし）'
+                    },
+                );
+            await interaction.reply({ embeds: [embed] });
+            break;
+        }
+        case 'leaderboard': {
+            const metric = (interaction.options.getString('metric') ?? 'duration') as 'duration' | 'active';
+            const rows = aggregateVoiceTime(context, guildId, since, null, 'user_id', metric, 10);
+
+            const embed = new EmbedBuilder()
+                .setTitle(`🏆 ボイスチャンネルのランキング（${label}・${metric === 'active' ? 'ミュートしていない時間' : '滞在時間'}）`)
+                .setColor(0x5865f2)
+                .setDescription(rows.length > 0 ? rows.map((row, i) => `${i + 1}. <@${row.id}> — ${formatDuration(row[metric])}`).join('\n') : '記録がありません。');
+            await interaction.reply({ embeds: [embed] });
+            break;
+        }
+        case 'channel': {
+            const channel = interaction.options.getChannel('channel');
+            if (!channel) {
+                const rows = aggregateVoiceTime(context, guildId, since, null, 'channel_id', 'duration', 10);
+                const embed = new EmbedBuilder()
+                    .setTitle(`🔊 ボイスチャンネルのランキング（${label}）`)
+                    .setColor(0x5865f2)
+                    .setDescription(rows.length > 0
+                        ? rows.map((row, i) => `${i + 1}. <#${row.id}> — ${formatDuration(row.duration)}（${row.users}人）`).join('\n')
+                        : '記録がありません。');
+                await interaction.reply({ embeds: [embed] });
+                break;
+            }
+
+            const [totals] = aggregateVoiceTime(context, guildId, since, { column: 'channel_id', value: channel.id });
+            const users = aggregateVoiceTime(context, guildId, since, { column: 'channel_id', value: channel.id }, 'user_id', 'duration', 5);
+            const embed = new EmbedBuilder()
+                .setTitle(`🔊 ${channel.name} の利用状況（${label}）`)
+                .setColor(0x5865f2)
+                .addFields(
+                    { name: '合計滞在時間', value: formatDuration(totals?.duration ?? 0), inline: true },
+                    { name: '利用したメンバー', value: `${totals?.users ?? 0}人`, inline: true },
+                    { name: '参加回数', value: (totals?.joins ?? 0).toLocaleString(), inline: true },
+                    {
+                        name: 'よく使うメンバー',
+                        value: users.length > 0 ? users.map((row, i) => `${i + 1}. <@${row.id}> (${formatDuration(row.duration)})`).join('\n') : '（なし）'
+                    },
+                );
+            await interaction.reply({ embeds: [embed] });
+            break;
+        }
+    }
+}
+
+export const voicestatsCommand: CommandModule = {
+    data: new SlashCommandBuilder()
+        .setName('voicestats')
+        .setDescription('ボイスチャンネルの利用状況を表示します')
+        .addSubcommand(subcommand =>
+            subcommand.setName('user')
+                .setDescription('メンバーのボイスチャンネルの滞在時間を表示します')
+                .addUserOption(option =>
+                    option.setName('user')
+                        .setDescription('対象のメンバー（省略時は自分）')
+                        .setRequired(false)
+                )
+                .addStringOption(option =>
+                    option.setName('period')
+                        .setDescription('集計期間（デフォルト: 全期間）')
+                        .setRequired(false)
+                        .addChoices(...VOICE_PERIOD_CHOICES)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('leaderboard')
+                .setDescription('ボイスチャンネルの滞在時間のランキングを表示します')
+                .addStringOption(option =>
+                    option.setName('period')
+                        .setDescription('集計期間（デフォルト: 過去7日間）')
+                        .setRequired(false)
+                        .addChoices(...VOICE_PERIOD_CHOICES)
+                )
+                .addStringOption(option =>
+                    option.setName('metric')
+                        .setDescription('順位の基準（デフォルト: 滞在時間）')
+                        .setRequired(false)
+                        .addChoices(
+                            { name: '滞在時間', value: 'duration' },
+                            { name: 'ミュートしていない時間', value: 'active' }
+                        )
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand.setName('channel')
+                .setDescription('ボイスチャンネルごとの利用状況を表示します')
+                .addChannelOption(option =>
+                    option.setName('channel')
+                        .setDescription('対象のボイスチャンネル（省略時はチャンネルのランキング）')
+                        .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice)
+                        .setRequired(false)
+                )
+                .addStringOption(option =>
+                    option.setName('period')
+                        .setDescription('集計期間（デフォルト: 全期間）')
+                        .setRequired(false)
+                        .addChoices(...VOICE_PERIOD_CHOICES)
+                )
+        ),
+    execute: handleVoiceStatsCommand,
+};
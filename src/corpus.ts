@@ -0,0 +1,204 @@
+import Database from 'better-sqlite3';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { DEFAULT_CORPUS_GUILD_ID } from './database';
+
+// 学習・生成で扱う文脈の長さの上限
+export const MAX_CHAIN_ORDER = 4;
+
+// prefix の単語を連結する区切り文字（トークンに現れない制御文字）
+export const PREFIX_SEPARATOR = '\u001f';
+
+export function prefixKey(words: string[]): string {
+    return words.join(PREFIX_SEPARATOR);
+}
+
+// マルコフ連鎖コーパスのスコープ（ギルド単位、channelId 指定時はチャンネル単位）
+export interface CorpusScope {
+    guildId: string;
+    channelId?: string;
+    authorId?: string; // 指定した場合はそのユーザーのメッセージから学習した遷移のみを使う
+}
+
+// スコープに対応する WHERE 条件とパラメータを返す
+export function corpusCondition(scope: CorpusScope): { clause: string; params: string[] } {
+    const clauses = ['guild_id = ?'];
+    const params = [scope.guildId];
+    if (scope.channelId) {
+        clauses.push('channel_id = ?');
+        params.push(scope.channelId);
+    }
+    if (scope.authorId) {
+        clauses.push('EXISTS (SELECT 1 FROM chain_sources WHERE chain_sources.chain_id = markov_chain.id AND chain_sources.author_id = ?)');
+        params.push(scope.authorId);
+    }
+    return { clause: clauses.join(' AND '), params };
+}
+
+// エクスポートファイルの形式（1 行目がヘッダー、2 行目以降が順方向の遷移の JSONL）
+// 逆方向の連鎖は順方向の遷移から作れるので含めない。出典（メッセージ・投稿者）も含めない
+export const CORPUS_FORMAT = 'markov-corpus';
+export const CORPUS_FORMAT_VERSION = 1;
+
+export interface CorpusHeader {
+    format: typeof CORPUS_FORMAT;
+    version: number;
+    guildId: string;
+    exportedAt: string;
+    transitions: number;
+}
+
+export interface CorpusTransition {
+    channelId: string;
+    order: number;
+    prefix: string[];
+    suffix: string;
+    count: number;
+}
+
+export interface CorpusImportResult {
+    transitions: number;
+    skipped: number;
+    keptChannels: boolean;
+}
+
+// エクスポートで一度に読み出す遷移の数（読み出しの合間に他の処理がデータベースを使えるよう、ステートメントを開いたままにしない）
+const EXPORT_PAGE_SIZE = 1000;
+
+// ギルドのコーパスを JSONL（compress の場合は gzip）にして output へ書き出し、書き出した遷移の数を返す
+// 全体を文字列にせずに少しずつ書き出すので、output がエラーにすると（大きさの上限など）その時点で読み出しをやめる
+export async function exportCorpus(db: Database.Database, guildId: string, output: Writable, compress: boolean): Promise<number> {
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM markov_chain WHERE guild_id = ? AND direction = 'forward'").get(guildId) as { count: number };
+    const pageStmt = db.prepare(`
+        SELECT id, channel_id, chain_order, prefix, suffix, count FROM markov_chain
+        WHERE guild_id = ? AND direction = 'forward' AND id > ? ORDER BY id LIMIT ?
+    `);
+    let transitions = 0;
+
+    async function* lines() {
+        const header: CorpusHeader = {
+            format: CORPUS_FORMAT,
+            version: CORPUS_FORMAT_VERSION,
+            guildId,
+            exportedAt: new Date().toISOString(),
+            transitions: count,
+        };
+        yield JSON.stringify(header) + '\n';
+
+        let lastId = 0;
+        for (;;) {
+            const rows = pageStmt.all(guildId, lastId, EXPORT_PAGE_SIZE) as { id: number; channel_id: string; chain_order: number; prefix: string; suffix: string; count: number }[];
+            if (rows.length === 0) return;
+            yield rows.map(row => {
+                const transition: CorpusTransition = {
+                    channelId: row.channel_id,
+                    order: row.chain_order,
+                    prefix: row.prefix.split(PREFIX_SEPARATOR),
+                    suffix: row.suffix,
+                    count: row.count,
+                };
+                return JSON.stringify(transition) + '\n';
+            }).join('');
+            transitions += rows.length;
+            lastId = rows[rows.length - 1].id;
+        }
+    }
+
+    if (compress) {
+        await pipeline(Readable.from(lines()), zlib.createGzip(), output);
+    } else {
+        await pipeline(Readable.from(lines()), output);
+    }
+    return transitions;
+}
+
+function parseTransition(line: string): CorpusTransition | null {
+    const value = JSON.parse(line);
+    const valid = typeof value === 'object' && value !== null
+        && typeof value.channelId === 'string'
+        && Number.isInteger(value.order) && value.order >= 1 && value.order <= MAX_CHAIN_ORDER
+        && Array.isArray(value.prefix) && value.prefix.length === value.order
+        && value.prefix.every((word: unknown) => typeof word === 'string' && !word.includes(PREFIX_SEPARATOR))
+        && typeof value.suffix === 'string'
+        && Number.isInteger(value.count) && value.count > 0;
+    return valid ? value : null;
+}
+
+// JSONL のコーパスをギルドのコーパスへ統合する
+// 別のギルドのコーパスはサーバー全体の遷移として取り込み、同じ遷移は出現回数を足す
+// エクスポート元と同じギルドへ戻す場合はバックアップからの復元として扱い、チャンネルを保って出現回数の多い方に合わせる（二重に数えない）
+export function importCorpus(db: Database.Database, guildId: string, text: string): CorpusImportResult {
+    const [headerLine, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+    let header: CorpusHeader;
+    try {
+        header = JSON.parse(headerLine ?? '');
+    } catch {
+        throw new Error('コーパスファイルのヘッダーを読み取れません。');
+    }
+    if (header?.format !== CORPUS_FORMAT) {
+        throw new Error('コーパスファイルの形式ではありません。');
+    }
+    if (header.version > CORPUS_FORMAT_VERSION) {
+        throw new Error(`対応していないバージョンのコーパスファイルです（バージョン ${header.version}）。`);
+    }
+
+    const keptChannels = header.guildId === guildId;
+    const insertStmt = db.prepare(`
+        INSERT INTO markov_chain (guild_id, channel_id, direction, chain_order, prefix, suffix, count) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (guild_id, channel_id, direction, chain_order, prefix, suffix)
+        DO UPDATE SET count = ${keptChannels ? 'MAX(count, excluded.count)' : 'count + excluded.count'}
+    `);
+
+    const result: CorpusImportResult = { transitions: 0, skipped: 0, keptChannels };
+    db.transaction(() => {
+        for (const line of lines) {
+            let transition: CorpusTransition | null;
+            try {
+                transition = parseTransition(line);
+            } catch {
+                transition = null;
+            }
+            if (!transition) {
+                result.skipped++;
+                continue;
+            }
+
+            const channelId = keptChannels ? transition.channelId : '';
+            const [first, ...rest] = transition.prefix;
+            insertStmt.run(guildId, channelId, 'forward', transition.order, prefixKey(transition.prefix), transition.suffix, transition.count);
+            // 逆方向の連鎖は、同じ n-gram を後ろから読んだもの
+            insertStmt.run(guildId, channelId, 'backward', transition.order, prefixKey([...rest, transition.suffix].reverse()), first, transition.count);
+            result.transitions++;
+        }
+    })();
+
+    return result;
+}
+
+// デフォルトコーパス（移行前のデータ）をギルドのチャンネルへ統合する（同じ遷移は出現回数を足し、学習元の記録も付け替える）
+export function mergeDefaultCorpus(db: Database.Database, guildId: string, channelId: string) {
+    db.transaction(() => {
+        db.prepare(`
+            INSERT INTO markov_chain (guild_id, channel_id, direction, chain_order, prefix, suffix, count)
+            SELECT ?, ?, direction, chain_order, prefix, suffix, count FROM markov_chain WHERE guild_id = ?
+            ON CONFLICT (guild_id, channel_id, direction, chain_order, prefix, suffix) DO UPDATE SET count = count + excluded.count
+        `).run(guildId, channelId, DEFAULT_CORPUS_GUILD_ID);
+        db.prepare(`
+            UPDATE chain_sources SET chain_id = (
+                SELECT n.id FROM markov_chain o
+                JOIN markov_chain n ON n.guild_id = ? AND n.channel_id = ? AND n.direction = o.direction
+                    AND n.chain_order = o.chain_order AND n.prefix = o.prefix AND n.suffix = o.suffix
+                WHERE o.id = chain_sources.chain_id
+            )
+            WHERE chain_id IN (SELECT id FROM markov_chain WHERE guild_id = ?)
+        `).run(guildId, channelId, DEFAULT_CORPUS_GUILD_ID);
+        db.prepare('DELETE FROM markov_chain WHERE guild_id = ?').run(DEFAULT_CORPUS_GUILD_ID);
+    })();
+}
+
+// gzip の場合は展開してテキストにする
+export function decodeCorpusFile(data: Buffer): string {
+    const isGzip = data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+    return (isGzip ? zlib.gunzipSync(data) : data).toString('utf8');
+}
@@ -0,0 +1,287 @@
+import Database from 'better-sqlite3';
+import { Client, Collection, Message, TextBasedChannel } from 'discord.js';
+import { Learner, learnText } from './learning';
+import { crawledMessages, transitionsInserted } from './metrics';
+import { CrawlJobChannelRow, CrawlJobRow, CrawlJobStatus, CrawlPhase } from './types';
+
+// クロールに使うデータベース・クライアントと、学習に使う Learner（トークナイザーの準備前は undefined）
+export interface Crawler {
+    db: Database.Database;
+    client: Client;
+    getLearner(): Learner | undefined;
+    batchDelayMs: number; // バッチ間の待機（API への負荷を抑える）
+}
+
+export const CRAWL_FETCH_LIMIT = 100;
+export const CRAWL_BATCH_DELAY_MS = 1000;
+const CRAWL_MAX_RETRIES = 5;
+const CRAWL_STATUS_UPDATE_INTERVAL_MS = 5000;
+
+const CRAWL_STATUS_LABELS: Record<CrawlJobStatus, string> = {
+    queued: '⏳ 待機中',
+    running: '🔍 実行中',
+    completed: '✅ 完了',
+    cancelled: '🛑 中止',
+    failed: '❌ 失敗',
+};
+
+const CRAWL_PHASE_LABELS: Record<CrawlPhase, string> = {
+    newer: '新しいメッセージを取得中',
+    older: '古いメッセージを取得中',
+    done: '完了',
+};
+
+let crawlRunnerActive = false;
+const lastCrawlStatusUpdate = new Map<number, number>();
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// 失敗した API 呼び出しを指数バックオフで再試行する（429 の待機自体は discord.js が行う）
+async function withBackoff<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (attempt >= CRAWL_MAX_RETRIES - 1) throw error;
+            const delay = 1000 * 2 ** attempt;
+            console.warn(`Crawl request failed, retrying in ${delay}ms:`, error);
+            await sleep(delay);
+        }
+    }
+}
+
+// Snowflake ID を数値として比較する（桁数が同じなら文字列の大小と一致）
+export function compareSnowflakes(a: string, b: string): number {
+    if (a.length !== b.length) {
+        return a.length - b.length;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// クロール済み範囲を広げる（既存の範囲と合わせて最古・最新のメッセージ ID を保存）
+function updateCrawlCheckpoint(db: Database.Database, guildId: string, channelId: string, oldestId: string, newestId: string) {
+    const current = db.prepare('SELECT oldest_message_id, newest_message_id FROM crawl_checkpoints WHERE channel_id = ?')
+        .get(channelId) as { oldest_message_id: string; newest_message_id: string } | undefined;
+    if (current) {
+        if (compareSnowflakes(current.oldest_message_id, oldestId) < 0) oldestId = current.oldest_message_id;
+        if (compareSnowflakes(current.newest_message_id, newestId) > 0) newestId = current.newest_message_id;
+    }
+
+    const now = Date.now();
+    db.prepare(`
+        INSERT INTO crawl_checkpoints (channel_id, guild_id, oldest_message_id, newest_message_id, updated_at, last_crawled_at) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (channel_id) DO UPDATE SET oldest_message_id = excluded.oldest_message_id,
+            newest_message_id = excluded.newest_message_id, updated_at = excluded.updated_at, last_crawled_at = excluded.last_crawled_at
+    `).run(channelId, guildId, oldestId, newestId, now, now);
+}
+
+// リアルタイム学習したメッセージを記録する（クロール済み範囲は広げない。
+// 停止中に取りこぼしたメッセージが次のクロールの newer で取得されるよう、範囲の更新はクローラーだけが行う）
+export function recordLiveLearnedMessage(db: Database.Database, channelId: string, messageId: string) {
+    db.prepare('INSERT OR IGNORE INTO live_learned_messages (message_id, channel_id, learned_at) VALUES (?, ?, ?)')
+        .run(messageId, channelId, Date.now());
+}
+
+export function getCrawlJob(db: Database.Database, jobId: number): CrawlJobRow | null {
+    return (db.prepare('SELECT * FROM crawl_jobs WHERE id = ?').get(jobId) as CrawlJobRow | undefined) ?? null;
+}
+
+export function setCrawlJobStatus(db: Database.Database, jobId: number, status: CrawlJobStatus, error: string | null = null) {
+    db.prepare('UPDATE crawl_jobs SET status = ?, error = ?, updated_at = ? WHERE id = ?').run(status, error, Date.now(), jobId);
+}
+
+export function formatCrawlJob(db: Database.Database, job: CrawlJobRow): string {
+    const channels = db.prepare('SELECT * FROM crawl_job_channels WHERE job_id = ?').all(job.id) as CrawlJobChannelRow[];
+    const lines = [
+        `${CRAWL_STATUS_LABELS[job.status]} クロールジョブ #${job.id}（<@${job.requested_by}>）`,
+        ...channels.map(channel =>
+            `<#${channel.channel_id}>: ${channel.fetched_messages.toLocaleString()} / ${job.message_limit.toLocaleString()} 件（${CRAWL_PHASE_LABELS[channel.phase]}）`
+        ),
+        `📝 ${job.processed_messages.toLocaleString()}件のメッセージを処理し、${job.inserted_chains.toLocaleString()}個の遷移を記録しました。`,
+    ];
+    if (job.error) {
+        lines.push(`エラー: ${job.error}`);
+    }
+    return lines.join('\n');
+}
+
+// 進捗メッセージを更新する（force でない場合は一定間隔ごと）
+export async function updateCrawlStatusMessage(crawler: Crawler, jobId: number, force = false) {
+    const now = Date.now();
+    if (!force && now - (lastCrawlStatusUpdate.get(jobId) ?? 0) < CRAWL_STATUS_UPDATE_INTERVAL_MS) return;
+    lastCrawlStatusUpdate.set(jobId, now);
+
+    const job = getCrawlJob(crawler.db, jobId);
+    if (!job || !job.status_channel_id || !job.status_message_id) return;
+
+    try {
+        const channel = await crawler.client.channels.fetch(job.status_channel_id);
+        if (channel && channel.isTextBased()) {
+            await channel.messages.edit(job.status_message_id, formatCrawlJob(crawler.db, job));
+        }
+    } catch (error) {
+        console.error(`Error updating status message for crawl job ${jobId}:`, error);
+    }
+}
+
+// 1 回分のメッセージを取得して学習し、チャンネルの進捗を返す
+async function crawlNextBatch(crawler: Crawler, job: CrawlJobRow, jobChannel: CrawlJobChannelRow, channel: TextBasedChannel & { guildId: string }): Promise<CrawlPhase> {
+    const { db } = crawler;
+    const learner = crawler.getLearner();
+    if (!learner) {
+        throw new Error('Tokenizer is not ready.');
+    }
+
+    const checkpoint = db.prepare('SELECT oldest_message_id, newest_message_id FROM crawl_checkpoints WHERE channel_id = ?')
+        .get(channel.id) as { oldest_message_id: string; newest_message_id: string } | undefined;
+    const remaining = job.message_limit - jobChannel.fetched_messages;
+    if (remaining <= 0) return 'done';
+
+    // 前回の範囲の外側から取得する（newer は古い順、older は新しい順に取り込む）
+    const isNewer = jobChannel.phase === 'newer' && checkpoint;
+    const options: { limit: number; before?: string; after?: string } = { limit: CRAWL_FETCH_LIMIT };
+    if (isNewer) {
+        options.after = checkpoint.newest_message_id;
+    } else if (checkpoint) {
+        options.before = checkpoint.oldest_message_id;
+    }
+
+    const messages: Collection<string, Message> = await withBackoff(() => channel.messages.fetch(options));
+    const batch = Array.from(messages.values())
+        .sort((a, b) => isNewer ? compareSnowflakes(a.id, b.id) : compareSnowflakes(b.id, a.id))
+        .slice(0, remaining);
+
+    const exhausted = messages.size < CRAWL_FETCH_LIMIT;
+    const nextPhase: CrawlPhase = batch.length >= remaining ? 'done'
+        : !exhausted ? (isNewer ? 'newer' : 'older')
+        : isNewer ? 'older' : 'done';
+
+    // バッチごとに学習・範囲・進捗をまとめて保存する（途中で止まっても再開できる）
+    let insertedChains = 0;
+    const deleteLiveLearned = db.prepare('DELETE FROM live_learned_messages WHERE message_id = ?');
+    db.transaction(() => {
+        let processedMessages = 0;
+
+        for (const msg of batch) {
+            if (!msg.content) continue;
+            // リアルタイム学習で学習済みのメッセージは学習し直さない（クロール済み範囲に入るので記録も消す）
+            if (deleteLiveLearned.run(msg.id).changes > 0) continue;
+
+            try {
+                insertedChains += learnText(learner, channel.guildId, channel.id, msg.content, { messageId: msg.id, authorId: msg.author.id });
+                processedMessages++;
+            } catch (tokenizeError) {
+                console.error('Error tokenizing message:', tokenizeError);
+            }
+        }
+
+        if (batch.length > 0) {
+            const sortedIds = batch.map(msg => msg.id).sort(compareSnowflakes);
+            updateCrawlCheckpoint(db, channel.guildId, channel.id, sortedIds[0], sortedIds[sortedIds.length - 1]);
+        }
+        db.prepare('UPDATE crawl_job_channels SET phase = ?, fetched_messages = fetched_messages + ? WHERE job_id = ? AND channel_id = ?')
+            .run(nextPhase, batch.length, job.id, channel.id);
+        db.prepare('UPDATE crawl_jobs SET processed_messages = processed_messages + ?, inserted_chains = inserted_chains + ?, updated_at = ? WHERE id = ?')
+            .run(processedMessages, insertedChains, Date.now(), job.id);
+    })();
+    crawledMessages.inc({}, batch.length);
+    transitionsInserted.inc({ source: 'crawl' }, insertedChains);
+
+    console.log(`Crawl job ${job.id}: fetched ${batch.length} messages from ${channel.id} (${nextPhase}).`);
+    return nextPhase;
+}
+
+async function runCrawlJob(crawler: Crawler, jobId: number) {
+    const { db, client } = crawler;
+    setCrawlJobStatus(db, jobId, 'running');
+    await updateCrawlStatusMessage(crawler, jobId, true);
+
+    try {
+        const jobChannels = db.prepare("SELECT * FROM crawl_job_channels WHERE job_id = ? AND phase != 'done'").all(jobId) as CrawlJobChannelRow[];
+
+        for (const jobChannel of jobChannels) {
+            const channel = await client.channels.fetch(jobChannel.channel_id).catch(() => null);
+            if (!channel || !channel.isTextBased() || channel.isDMBased()) {
+                console.warn(`Crawl job ${jobId}: channel ${jobChannel.channel_id} is not available, skipping.`);
+                db.prepare("UPDATE crawl_job_channels SET phase = 'done' WHERE job_id = ? AND channel_id = ?").run(jobId, jobChannel.channel_id);
+                continue;
+            }
+
+            let phase = jobChannel.phase;
+            while (phase !== 'done') {
+                const job = getCrawlJob(db, jobId);
+                if (!job || job.status === 'cancelled') {
+                    console.log(`Crawl job ${jobId} was cancelled.`);
+                    await updateCrawlStatusMessage(crawler, jobId, true);
+                    return;
+                }
+
+                const current = db.prepare('SELECT * FROM crawl_job_channels WHERE job_id = ? AND channel_id = ?').get(jobId, channel.id) as CrawlJobChannelRow;
+                phase = await crawlNextBatch(crawler, job, current, channel);
+                await updateCrawlStatusMessage(crawler, jobId);
+                await sleep(crawler.batchDelayMs);
+            }
+        }
+
+        // 最後のバッチの間に中止された場合は中止のままにする
+        if (getCrawlJob(db, jobId)?.status === 'running') {
+            setCrawlJobStatus(db, jobId, 'completed');
+        }
+        console.log(`Crawl job ${jobId} finished.`);
+    } catch (error) {
+        console.error(`An error occurred during crawl job ${jobId}:`, error);
+        if (getCrawlJob(db, jobId)?.status === 'running') {
+            setCrawlJobStatus(db, jobId, 'failed', error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    await updateCrawlStatusMessage(crawler, jobId, true);
+    lastCrawlStatusUpdate.delete(jobId);
+}
+
+// 待機中・実行中のジョブを古い順に 1 つずつ実行する
+export async function runCrawlQueue(crawler: Crawler) {
+    if (crawlRunnerActive) return;
+    crawlRunnerActive = true;
+
+    try {
+        // 起動直後はトークナイザーの準備を待つ
+        while (!crawler.getLearner()) {
+            await sleep(1000);
+        }
+
+        while (true) {
+            const job = crawler.db.prepare("SELECT id FROM crawl_jobs WHERE status IN ('queued', 'running') ORDER BY id LIMIT 1").get() as { id: number } | undefined;
+            if (!job) break;
+            await runCrawlJob(crawler, job.id);
+        }
+    } finally {
+        crawlRunnerActive = false;
+    }
+}
+
+// クロール対象のチャンネル ID を解決する（スレッドを含める場合は公開スレッドも追加）
+export async function resolveCrawlChannels(client: Client, guildId: string, channelIds: string[], includeThreads: boolean): Promise<string[]> {
+    const resolved: string[] = [];
+
+    for (const channelId of channelIds) {
+        const channel = await client.channels.fetch(channelId).catch(() => null);
+        // 他のサーバーのチャンネルから学習しないようにする
+        if (!channel || !channel.isTextBased() || channel.isDMBased() || channel.guildId !== guildId) continue;
+        resolved.push(channel.id);
+
+        if (includeThreads && 'threads' in channel) {
+            try {
+                const active = await channel.threads.fetchActive();
+                const archived = await channel.threads.fetchArchived({ type: 'public' });
+                resolved.push(...active.threads.keys(), ...archived.threads.keys());
+            } catch (error) {
+                console.error(`Error fetching threads of ${channel.id}:`, error);
+            }
+        }
+    }
+
+    return Array.from(new Set(resolved));
+}
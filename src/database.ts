@@ -0,0 +1,395 @@
+import Database from 'better-sqlite3';
+
+// データベースファイルの既定の場所（環境変数 DATABASE_PATH で変更できる）
+export const DEFAULT_DB_PATH = 'markov_chain.db';
+
+// 既存データを移行する際のコーパス（どのギルドにも属さないデータの置き場）
+export const DEFAULT_CORPUS_GUILD_ID = 'default';
+
+// スキーマのマイグレーション（PRAGMA user_version で適用済みバージョンを管理）
+const migrations: ((database: Database.Database) => void)[] = [
+    // v1: コーパスをギルド・チャンネル単位に分割し、既存の行はデフォルトコーパスへ移動
+    (database) => {
+        database.exec(`
+            CREATE TABLE markov_chain_v1 (
+                guild_id TEXT NOT NULL,
+                channel_id TEXT NOT NULL DEFAULT '',
+                prefix1 TEXT,
+                prefix2 TEXT,
+                suffix TEXT,
+                UNIQUE(guild_id, channel_id, prefix1, prefix2, suffix)
+            );
+            INSERT INTO markov_chain_v1 (guild_id, channel_id, prefix1, prefix2, suffix)
+                SELECT '${DEFAULT_CORPUS_GUILD_ID}', '', prefix1, prefix2, suffix FROM markov_chain;
+            DROP TABLE markov_chain;
+            ALTER TABLE markov_chain_v1 RENAME TO markov_chain;
+            CREATE INDEX idx_markov_chain_prefix ON markov_chain (guild_id, prefix1, prefix2);
+        `);
+    },
+    // v2: 連鎖ごとの出現回数を保持する（既存の行は 1 回として扱う）
+    (database) => {
+        database.exec("ALTER TABLE markov_chain ADD COLUMN count INTEGER NOT NULL DEFAULT 1");
+    },
+    // v3: リアルタイム学習の対象チャンネルと、チャンネルごとのクロール済み範囲
+    (database) => {
+        database.exec(`
+            CREATE TABLE learning_channels (
+                channel_id TEXT PRIMARY KEY,
+                guild_id TEXT NOT NULL,
+                enabled_by TEXT NOT NULL,
+                enabled_at INTEGER NOT NULL
+            );
+            CREATE TABLE crawl_checkpoints (
+                channel_id TEXT PRIMARY KEY,
+                guild_id TEXT NOT NULL,
+                oldest_message_id TEXT NOT NULL,
+                newest_message_id TEXT NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+        `);
+    },
+    // v4: 連鎖に安定した ID を付け、遷移ごとの出典（メッセージ・投稿者）と学習拒否ユーザーを記録
+    (database) => {
+        database.exec(`
+            CREATE TABLE markov_chain_v4 (
+                id INTEGER PRIMARY KEY,
+                guild_id TEXT NOT NULL,
+                channel_id TEXT NOT NULL DEFAULT '',
+                prefix1 TEXT,
+                prefix2 TEXT,
+                suffix TEXT,
+                count INTEGER NOT NULL DEFAULT 1,
+                UNIQUE(guild_id, channel_id, prefix1, prefix2, suffix)
+            );
+            INSERT INTO markov_chain_v4 (guild_id, channel_id, prefix1, prefix2, suffix, count)
+                SELECT guild_id, channel_id, prefix1, prefix2, suffix, count FROM markov_chain;
+            DROP TABLE markov_chain;
+            ALTER TABLE markov_chain_v4 RENAME TO markov_chain;
+            CREATE INDEX idx_markov_chain_prefix ON markov_chain (guild_id, prefix1, prefix2);
+
+            CREATE TABLE chain_sources (
+                chain_id INTEGER NOT NULL,
+                message_id TEXT NOT NULL,
+                author_id TEXT NOT NULL
+            );
+            CREATE INDEX idx_chain_sources_chain ON chain_sources (chain_id);
+            CREATE INDEX idx_chain_sources_message ON chain_sources (message_id);
+            CREATE INDEX idx_chain_sources_author ON chain_sources (author_id);
+
+            CREATE TABLE privacy_optouts (
+                user_id TEXT PRIMARY KEY,
+                opted_out_at INTEGER NOT NULL
+            );
+        `);
+    },
+    // v5: ギルドごとの学習前の正規化設定と、生成文に含めない禁止語
+    (database) => {
+        database.exec(`
+            CREATE TABLE content_filters (
+                guild_id TEXT PRIMARY KEY,
+                mentions TEXT NOT NULL DEFAULT 'placeholder',
+                urls TEXT NOT NULL DEFAULT 'strip',
+                code_blocks TEXT NOT NULL DEFAULT 'strip',
+                emojis TEXT NOT NULL DEFAULT 'placeholder'
+            );
+            CREATE TABLE blocked_words (
+                guild_id TEXT NOT NULL,
+                word TEXT NOT NULL,
+                added_by TEXT NOT NULL,
+                added_at INTEGER NOT NULL,
+                PRIMARY KEY (guild_id, word)
+            );
+        `);
+    },
+    // v6: ギルドごとの設定（チャンネル ID の一覧は JSON 配列で保存）
+    (database) => {
+        database.exec(`
+            CREATE TABLE guild_settings (
+                guild_id TEXT PRIMARY KEY,
+                auto_response_mode TEXT NOT NULL,
+                response_probability REAL NOT NULL,
+                allowed_channels TEXT NOT NULL,
+                ignored_channels TEXT NOT NULL,
+                response_cooldown_seconds INTEGER NOT NULL,
+                afk_channel_id TEXT,
+                mute_timeout_minutes INTEGER NOT NULL,
+                crawl_channels TEXT NOT NULL
+            );
+        `);
+    },
+    // v7: 管理系コマンドを実行できるロール（ギルド・権限ごと）
+    (database) => {
+        database.exec(`
+            CREATE TABLE command_permissions (
+                guild_id TEXT NOT NULL,
+                permission_key TEXT NOT NULL,
+                role_id TEXT NOT NULL,
+                PRIMARY KEY (guild_id, permission_key, role_id)
+            );
+        `);
+    },
+    // v8: /crawling を最後に実行した時刻（リアルタイム学習による更新とは区別する）
+    (database) => {
+        database.exec("ALTER TABLE crawl_checkpoints ADD COLUMN last_crawled_at INTEGER");
+        database.exec("UPDATE crawl_checkpoints SET last_crawled_at = updated_at");
+    },
+    // v9: ユーザーごとのクールダウン、ギルドの 1 分あたりの応答上限、ボットの発言直後の抑制
+    (database) => {
+        database.exec(`
+            ALTER TABLE guild_settings ADD COLUMN user_cooldown_seconds INTEGER NOT NULL DEFAULT 10;
+            ALTER TABLE guild_settings ADD COLUMN max_replies_per_minute INTEGER NOT NULL DEFAULT 10;
+            ALTER TABLE guild_settings ADD COLUMN bot_silence_seconds INTEGER NOT NULL DEFAULT 3;
+        `);
+    },
+    // v10: バックグラウンドで実行するクロールジョブと、ジョブごとの対象チャンネルの進捗
+    (database) => {
+        database.exec(`
+            CREATE TABLE crawl_jobs (
+                id INTEGER PRIMARY KEY,
+                guild_id TEXT NOT NULL,
+                requested_by TEXT NOT NULL,
+                status TEXT NOT NULL,
+                message_limit INTEGER NOT NULL,
+                processed_messages INTEGER NOT NULL DEFAULT 0,
+                inserted_chains INTEGER NOT NULL DEFAULT 0,
+                status_channel_id TEXT,
+                status_message_id TEXT,
+                error TEXT,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE TABLE crawl_job_channels (
+                job_id INTEGER NOT NULL,
+                channel_id TEXT NOT NULL,
+                phase TEXT NOT NULL,
+                fetched_messages INTEGER NOT NULL DEFAULT 0,
+                PRIMARY KEY (job_id, channel_id)
+            );
+        `);
+    },
+    // v11: 文脈の長さ（次数）を 1〜4 で扱えるよう、prefix を連結した 1 列にする
+    // 既存の 2 次の連鎖はそのまま移し、1 次の連鎖は 2 次の連鎖の後半から出典ごと導出する
+    (database) => {
+        database.exec(`
+            CREATE TABLE markov_chain_v11 (
+                id INTEGER PRIMARY KEY,
+                guild_id TEXT NOT NULL,
+                channel_id TEXT NOT NULL DEFAULT '',
+                chain_order INTEGER NOT NULL,
+                prefix TEXT NOT NULL,
+                suffix TEXT,
+                count INTEGER NOT NULL DEFAULT 1,
+                UNIQUE(guild_id, channel_id, chain_order, prefix, suffix)
+            );
+            INSERT INTO markov_chain_v11 (id, guild_id, channel_id, chain_order, prefix, suffix, count)
+                SELECT id, guild_id, channel_id, 2, prefix1 || char(31) || prefix2, suffix, count FROM markov_chain;
+            INSERT INTO markov_chain_v11 (guild_id, channel_id, chain_order, prefix, suffix, count)
+                SELECT guild_id, channel_id, 1, prefix2, suffix, SUM(count) FROM markov_chain
+                GROUP BY guild_id, channel_id, prefix2, suffix;
+            INSERT INTO chain_sources (chain_id, message_id, author_id)
+                SELECT n.id, s.message_id, s.author_id FROM chain_sources s
+                JOIN markov_chain o ON o.id = s.chain_id
+                JOIN markov_chain_v11 n ON n.chain_order = 1 AND n.guild_id = o.guild_id AND n.channel_id = o.channel_id
+                    AND n.prefix = o.prefix2 AND n.suffix = o.suffix;
+            DROP TABLE markov_chain;
+            ALTER TABLE markov_chain_v11 RENAME TO markov_chain;
+            CREATE INDEX idx_markov_chain_prefix ON markov_chain (guild_id, chain_order, prefix);
+
+            ALTER TABLE guild_settings ADD COLUMN chain_order INTEGER NOT NULL DEFAULT 2;
+        `);
+    },
+    // v12: キーワードから文頭側へ生成できるよう、逆向きの連鎖を追加する
+    (database) => {
+        database.exec(`
+            CREATE TABLE markov_chain_v12 (
+                id INTEGER PRIMARY KEY,
+                guild_id TEXT NOT NULL,
+                channel_id TEXT NOT NULL DEFAULT '',
+                direction TEXT NOT NULL DEFAULT 'forward',
+                chain_order INTEGER NOT NULL,
+                prefix TEXT NOT NULL,
+                suffix TEXT,
+                count INTEGER NOT NULL DEFAULT 1,
+                UNIQUE(guild_id, channel_id, direction, chain_order, prefix, suffix)
+            );
+            INSERT INTO markov_chain_v12 (id, guild_id, channel_id, chain_order, prefix, suffix, count)
+                SELECT id, guild_id, channel_id, chain_order, prefix, suffix, count FROM markov_chain;
+            CREATE TEMP TABLE backward_chain_ids (forward_id INTEGER PRIMARY KEY, backward_id INTEGER NOT NULL);
+        `);
+
+        // 逆向きの連鎖は同じ n-gram を後ろから読んだものなので、既存の各行から 1 対 1 で作れる
+        // （prefix の区切りは char(31)）
+        type ForwardChainRow = { id: number; guild_id: string; channel_id: string; chain_order: number; prefix: string; suffix: string | null; count: number };
+        const selectPage = database.prepare('SELECT id, guild_id, channel_id, chain_order, prefix, suffix, count FROM markov_chain WHERE id > ? ORDER BY id LIMIT 10000');
+        const insertBackward = database.prepare(`
+            INSERT INTO markov_chain_v12 (guild_id, channel_id, direction, chain_order, prefix, suffix, count)
+            VALUES (?, ?, 'backward', ?, ?, ?, ?)
+            ON CONFLICT (guild_id, channel_id, direction, chain_order, prefix, suffix) DO UPDATE SET count = count + excluded.count
+            RETURNING id
+        `);
+        const insertMapping = database.prepare('INSERT INTO backward_chain_ids (forward_id, backward_id) VALUES (?, ?)');
+        let lastId = 0;
+        for (let rows = selectPage.all(lastId) as ForwardChainRow[]; rows.length > 0; rows = selectPage.all(lastId) as ForwardChainRow[]) {
+            for (const row of rows) {
+                const [first, ...rest] = row.prefix.split('\u001f');
+                const backward = insertBackward.get(
+                    row.guild_id, row.channel_id, row.chain_order, [...rest, row.suffix].reverse().join('\u001f'), first, row.count
+                ) as { id: number };
+                insertMapping.run(row.id, backward.id);
+                lastId = row.id;
+            }
+        }
+
+        database.exec(`
+            INSERT INTO chain_sources (chain_id, message_id, author_id)
+                SELECT b.backward_id, s.message_id, s.author_id FROM chain_sources s
+                JOIN backward_chain_ids b ON b.forward_id = s.chain_id;
+            DROP TABLE backward_chain_ids;
+            DROP TABLE markov_chain;
+            ALTER TABLE markov_chain_v12 RENAME TO markov_chain;
+            CREATE INDEX idx_markov_chain_prefix ON markov_chain (guild_id, direction, chain_order, prefix);
+        `);
+    },
+    // v13: AFK の判定条件・除外・警告・ログの設定と、再起動しても消えない AFK タイマー
+    (database) => {
+        database.exec(`
+            ALTER TABLE guild_settings ADD COLUMN afk_count_mute INTEGER NOT NULL DEFAULT 1;
+            ALTER TABLE guild_settings ADD COLUMN afk_count_deafen INTEGER NOT NULL DEFAULT 1;
+            ALTER TABLE guild_settings ADD COLUMN afk_count_alone INTEGER NOT NULL DEFAULT 0;
+            ALTER TABLE guild_settings ADD COLUMN afk_warning_minutes INTEGER NOT NULL DEFAULT 5;
+            ALTER TABLE guild_settings ADD COLUMN afk_warning_mode TEXT NOT NULL DEFAULT 'dm';
+            ALTER TABLE guild_settings ADD COLUMN afk_log_channel_id TEXT;
+            ALTER TABLE guild_settings ADD COLUMN afk_exempt_roles TEXT NOT NULL DEFAULT '[]';
+            ALTER TABLE guild_settings ADD COLUMN afk_exempt_channels TEXT NOT NULL DEFAULT '[]';
+
+            CREATE TABLE afk_timers (
+                guild_id TEXT NOT NULL,
+                user_id TEXT NOT NULL,
+                inactive_since INTEGER NOT NULL,
+                warned_at INTEGER,
+                PRIMARY KEY (guild_id, user_id)
+            );
+        `);
+    },
+    // v14: ボイスチャンネルの滞在記録（入退室・ミュートの切り替えごとに 1 行）
+    (database) => {
+        database.exec(`
+            CREATE TABLE voice_sessions (
+                id INTEGER PRIMARY KEY,
+                guild_id TEXT NOT NULL,
+                user_id TEXT NOT NULL,
+                channel_id TEXT NOT NULL,
+                muted INTEGER NOT NULL,
+                joined INTEGER NOT NULL,
+                started_at INTEGER NOT NULL,
+                ended_at INTEGER,
+                last_seen_at INTEGER NOT NULL
+            );
+            CREATE INDEX idx_voice_sessions_guild ON voice_sessions (guild_id, started_at);
+            CREATE INDEX idx_voice_sessions_user ON voice_sessions (guild_id, user_id);
+            CREATE INDEX idx_voice_sessions_open ON voice_sessions (ended_at) WHERE ended_at IS NULL;
+        `);
+    },
+    // v15: 模倣（/imitate）への同意と、投稿者ごとに遷移を絞り込むためのインデックス
+    (database) => {
+        database.exec(`
+            CREATE TABLE imitation_consents (
+                user_id TEXT PRIMARY KEY,
+                consented_at INTEGER NOT NULL
+            );
+            CREATE INDEX idx_chain_sources_chain_author ON chain_sources (chain_id, author_id);
+        `);
+    },
+    // v16: 登録済みのスラッシュコマンド定義のハッシュ（変更がなければ起動時に登録し直さない）
+    (database) => {
+        database.exec(`
+            CREATE TABLE command_deployments (
+                application_id TEXT NOT NULL,
+                scope TEXT NOT NULL, -- 登録先のギルド ID（グローバルの場合は 'global'）
+                hash TEXT NOT NULL,
+                deployed_at INTEGER NOT NULL,
+                PRIMARY KEY (application_id, scope)
+            );
+        `);
+    },
+    // v17: 生成した文章への反応による評価（文章ごとにたどった遷移を記録し、遷移の重みを補正する）
+    (database) => {
+        database.exec(`
+            CREATE TABLE generated_messages (
+                message_id TEXT PRIMARY KEY,
+                guild_id TEXT NOT NULL,
+                channel_id TEXT NOT NULL,
+                content TEXT NOT NULL,
+                source TEXT NOT NULL, -- 'generate'（/generate）または 'auto_response'
+                created_at INTEGER NOT NULL
+            );
+            CREATE INDEX idx_generated_messages_content ON generated_messages (guild_id, content);
+            CREATE TABLE generated_message_transitions (
+                message_id TEXT NOT NULL,
+                direction TEXT NOT NULL,
+                chain_order INTEGER NOT NULL,
+                prefix TEXT NOT NULL,
+                suffix TEXT NOT NULL,
+                PRIMARY KEY (message_id, direction, chain_order, prefix, suffix)
+            );
+            CREATE TABLE feedback_votes (
+                message_id TEXT NOT NULL,
+                user_id TEXT NOT NULL,
+                kind TEXT NOT NULL, -- 'up'・'down'・'blacklist'
+                created_at INTEGER NOT NULL,
+                PRIMARY KEY (message_id, user_id, kind)
+            );
+            CREATE TABLE transition_feedback (
+                guild_id TEXT NOT NULL,
+                direction TEXT NOT NULL,
+                chain_order INTEGER NOT NULL,
+                prefix TEXT NOT NULL,
+                suffix TEXT NOT NULL,
+                score INTEGER NOT NULL DEFAULT 0,
+                PRIMARY KEY (guild_id, direction, chain_order, prefix, suffix)
+            );
+
+            ALTER TABLE guild_settings ADD COLUMN feedback_up_emoji TEXT NOT NULL DEFAULT '👍';
+            ALTER TABLE guild_settings ADD COLUMN feedback_down_emoji TEXT NOT NULL DEFAULT '👎';
+            ALTER TABLE guild_settings ADD COLUMN feedback_blacklist_emoji TEXT NOT NULL DEFAULT '🚫';
+        `);
+    },
+    // v18: リアルタイム学習したメッセージ（クロール済み範囲とは別に記録し、クロールで重複して学習しないようにする）
+    (database) => {
+        database.exec(`
+            CREATE TABLE live_learned_messages (
+                message_id TEXT PRIMARY KEY,
+                channel_id TEXT NOT NULL,
+                learned_at INTEGER NOT NULL
+            );
+        `);
+    },
+    // v19: 評価の取り消しで 0 に戻った遷移の評価を、表全体を走査せずに削除する
+    (database) => {
+        database.exec(`
+            CREATE INDEX idx_transition_feedback_neutral ON transition_feedback (score) WHERE score = 0;
+        `);
+    },
+];
+
+function runMigrations(db: Database.Database) {
+    const currentVersion = db.pragma('user_version', { simple: true }) as number;
+    for (let version = currentVersion; version < migrations.length; version++) {
+        db.transaction(() => {
+            migrations[version](db);
+            db.pragma(`user_version = ${version + 1}`);
+        })();
+        console.log(`Database migrated to schema version ${version + 1}.`);
+    }
+}
+
+// データベースを開き、スキーマを最新にする
+export function openDatabase(path: string): Database.Database {
+    const db = new Database(path);
+
+    // テーブル作成
+    db.exec("CREATE TABLE IF NOT EXISTS markov_chain (prefix1 TEXT, prefix2 TEXT, suffix TEXT, UNIQUE(prefix1, prefix2, suffix))");
+
+    runMigrations(db);
+    return db;
+}
@@ -0,0 +1,182 @@
+import Database from 'better-sqlite3';
+import { GuildMember, MessageReaction, PartialMessageReaction, PartialUser, User } from 'discord.js';
+import { prefixKey } from './corpus';
+import { ChainStep } from './generation';
+import { hasMemberPermission } from './permissions';
+import { GuildSettings } from './types';
+
+// 生成した文章へのリアクションによる評価
+// up・down はその文章がたどった遷移の重みを上げ下げし、blacklist（権限が必要）は同じ文章を二度と生成しないようにする
+export type FeedbackKind = 'up' | 'down' | 'blacklist';
+
+// /generate と自動応答のどちらで生成したか
+export type GeneratedMessageSource = 'generate' | 'auto_response';
+
+// 評価 1 点ごとに重みを何倍にするかと、重みに反映する評価の上限（少数の評価で連鎖が偏りすぎないようにする）
+export const FEEDBACK_WEIGHT_STEP = 1.5;
+export const MAX_FEEDBACK_SCORE = 5;
+
+// 遷移の評価から、出現回数に掛ける倍率を求める
+export function feedbackMultiplier(score: number): number {
+    return FEEDBACK_WEIGHT_STEP ** Math.min(MAX_FEEDBACK_SCORE, Math.max(-MAX_FEEDBACK_SCORE, score));
+}
+
+// 送信した文章と、生成でたどった遷移を記録する（連鎖をたどっていないエラーなどの文章は記録しない）
+export function recordGeneratedMessage(
+    db: Database.Database,
+    message: { id: string; guildId: string; channelId: string },
+    content: string,
+    source: GeneratedMessageSource,
+    trace: ChainStep[]
+) {
+    if (trace.length === 0) return;
+
+    const insertTransition = db.prepare(`
+        INSERT OR IGNORE INTO generated_message_transitions (message_id, direction, chain_order, prefix, suffix) VALUES (?, ?, ?, ?, ?)
+    `);
+    db.transaction(() => {
+        db.prepare('INSERT OR REPLACE INTO generated_messages (message_id, guild_id, channel_id, content, source, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+            .run(message.id, message.guildId, message.channelId, content, source, Date.now());
+        for (const step of trace) {
+            insertTransition.run(message.id, step.direction, step.prefix.length, prefixKey(step.prefix), step.chosen);
+        }
+    })();
+}
+
+// 権限を持つメンバーが blacklist のリアクションを付けた文章か
+export function isBlacklistedOutput(db: Database.Database, guildId: string, content: string): boolean {
+    return Boolean(db.prepare(`
+        SELECT 1 FROM generated_messages m JOIN feedback_votes v ON v.message_id = m.message_id AND v.kind = 'blacklist'
+        WHERE m.guild_id = ? AND m.content = ? LIMIT 1
+    `).get(guildId, content));
+}
+
+// リアクションの指定を保存する形にする（カスタム絵文字 <:name:id> は ID、それ以外は入力のまま）
+export function parseFeedbackEmoji(input: string): string {
+    return input.trim().match(/^<a?:\w+:(\d+)>$/)?.[1] ?? input.trim();
+}
+
+export function formatFeedbackEmoji(emoji: string): string {
+    return /^\d+$/.test(emoji) ? `<:emoji:${emoji}>` : emoji;
+}
+
+function getFeedbackKind(settings: GuildSettings, emoji: { id: string | null; name: string | null }): FeedbackKind | null {
+    const key = emoji.id ?? emoji.name;
+    if (key === settings.feedbackUpEmoji) return 'up';
+    if (key === settings.feedbackDownEmoji) return 'down';
+    if (key === settings.feedbackBlacklistEmoji) return 'blacklist';
+    return null;
+}
+
+// 評価の記録に使うステートメント（データベースごとに一度だけ準備する）
+const feedbackStatements = new WeakMap<Database.Database, {
+    insertVote: Database.Statement;
+    deleteVote: Database.Statement;
+    addScore: Database.Statement;
+    deleteNeutral: Database.Statement;
+    findMessage: Database.Statement;
+}>();
+
+function getFeedbackStatements(db: Database.Database) {
+    let statements = feedbackStatements.get(db);
+    if (!statements) {
+        statements = {
+            insertVote: db.prepare('INSERT OR IGNORE INTO feedback_votes (message_id, user_id, kind, created_at) VALUES (?, ?, ?, ?)'),
+            deleteVote: db.prepare('DELETE FROM feedback_votes WHERE message_id = ? AND user_id = ? AND kind = ?'),
+            addScore: db.prepare(`
+                INSERT INTO transition_feedback (guild_id, direction, chain_order, prefix, suffix, score)
+                SELECT m.guild_id, t.direction, t.chain_order, t.prefix, t.suffix, ? FROM generated_message_transitions t
+                JOIN generated_messages m ON m.message_id = t.message_id
+                WHERE t.message_id = ?
+                ON CONFLICT (guild_id, direction, chain_order, prefix, suffix) DO UPDATE SET score = score + excluded.score
+            `),
+            deleteNeutral: db.prepare('DELETE FROM transition_feedback WHERE score = 0'),
+            findMessage: db.prepare('SELECT guild_id FROM generated_messages WHERE message_id = ?'),
+        };
+        feedbackStatements.set(db, statements);
+    }
+    return statements;
+}
+
+// 評価を追加・取り消し、文章がたどった遷移の評価に反映する（同じユーザーの同じ評価は 1 回だけ数える）
+export function applyFeedbackVote(db: Database.Database, messageId: string, userId: string, kind: FeedbackKind, added: boolean): boolean {
+    const { insertVote, deleteVote, addScore, deleteNeutral } = getFeedbackStatements(db);
+    return db.transaction(() => {
+        const result = added ? insertVote.run(messageId, userId, kind, Date.now()) : deleteVote.run(messageId, userId, kind);
+        if (result.changes === 0) return false;
+        if (kind === 'blacklist') return true;
+
+        const delta = (kind === 'up' ? 1 : -1) * (added ? 1 : -1);
+        addScore.run(delta, messageId);
+        deleteNeutral.run();
+        return true;
+    })();
+}
+
+// リアクションの処理に使うデータベースとギルドの設定
+export interface FeedbackTracker {
+    db: Database.Database;
+    adminUserId: string | undefined;
+    getGuildSettings(guildId: string): GuildSettings;
+}
+
+// messageReactionAdd・messageReactionRemove イベントの処理（ボットが生成した文章へのリアクションのみ扱う）
+export async function handleFeedbackReaction(
+    tracker: FeedbackTracker,
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser,
+    added: boolean
+) {
+    const { db } = tracker;
+    if (user.bot) return;
+
+    const record = getFeedbackStatements(db).findMessage.get(reaction.message.id) as { guild_id: string } | undefined;
+    if (!record) return;
+
+    const kind = getFeedbackKind(tracker.getGuildSettings(record.guild_id), reaction.emoji);
+    if (!kind) return;
+
+    // 文章を使わせないようにできるのは設定・フィルターの権限を持つメンバーのみ（取り消しは付けた本人の評価だけが消える）
+    if (kind === 'blacklist' && added) {
+        const member: GuildMember | undefined = await reaction.message.guild?.members.fetch(user.id).catch(() => undefined);
+        if (!member || !hasMemberPermission(db, member, 'config', tracker.adminUserId)) return;
+    }
+
+    if (applyFeedbackVote(db, reaction.message.id, user.id, kind, added)) {
+        console.log(`Feedback ${added ? 'added' : 'removed'}: ${kind} on message ${reaction.message.id} by user ${user.id}.`);
+    }
+}
+
+export interface RatedMessage {
+    message_id: string;
+    channel_id: string;
+    content: string;
+    up: number;
+    down: number;
+}
+
+export interface FeedbackStats {
+    ratedMessages: number;
+    adjustedTransitions: number;
+    blacklistedMessages: number;
+    topMessages: RatedMessage[];
+}
+
+// ギルドの評価の集計と、評価の高い文章（使わせないようにした文章は除く）
+export function getFeedbackStats(db: Database.Database, guildId: string, limit: number): FeedbackStats {
+    const votes = `
+        SELECT m.message_id, m.channel_id, m.content,
+            SUM(v.kind = 'up') AS up, SUM(v.kind = 'down') AS down, SUM(v.kind = 'blacklist') AS blacklist
+        FROM generated_messages m JOIN feedback_votes v ON v.message_id = m.message_id
+        WHERE m.guild_id = ? GROUP BY m.message_id
+    `;
+    const totals = db.prepare(`SELECT COUNT(*) AS rated, COALESCE(SUM(blacklist > 0), 0) AS blacklisted FROM (${votes})`)
+        .get(guildId) as { rated: number; blacklisted: number };
+    const { adjusted } = db.prepare('SELECT COUNT(*) AS adjusted FROM transition_feedback WHERE guild_id = ?').get(guildId) as { adjusted: number };
+    const topMessages = db.prepare(`
+        SELECT message_id, channel_id, content, up, down FROM (${votes})
+        WHERE blacklist = 0 AND up > down ORDER BY up - down DESC, up DESC, message_id DESC LIMIT ?
+    `).all(guildId, limit) as RatedMessage[];
+
+    return { ratedMessages: totals.rated, adjustedTransitions: adjusted, blacklistedMessages: totals.blacklisted, topMessages };
+}
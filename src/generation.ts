@@ -0,0 +1,290 @@
+import Database from 'better-sqlite3';
+import kuromoji from 'kuromoji';
+import { MAX_CHAIN_ORDER, PREFIX_SEPARATOR, CorpusScope, corpusCondition, prefixKey } from './corpus';
+import { feedbackMultiplier } from './feedback';
+import { BOS_TOKEN, EOS_TOKEN, Tokenizer, getContentFilter, normalizeContent } from './learning';
+import { Random } from './random';
+
+// 生成に使うデータベースとトークナイザー（準備前は undefined）・乱数
+// trace を渡すと、生成した文章がたどった連鎖をそこに記録する
+export interface Generator {
+    db: Database.Database;
+    tokenizer: Tokenizer | undefined;
+    random: Random;
+    trace?: ChainStep[];
+}
+
+// 生成の乱数と連鎖の記録先（省略時は Math.random を使い、記録しない）
+export type GenerationOptions = Partial<Pick<Generator, 'random' | 'trace'>>;
+
+// forward: 文末に向かって生成する、backward: 文頭に向かって生成する
+export type ChainDirection = 'forward' | 'backward';
+
+// 連鎖の 1 ステップ（バックオフ後に使った文脈・候補の数・選んだ単語とその重み）
+// 重みは出現回数にリアクションによる評価の倍率を掛けたもの
+// backward の場合、prefix は文の後ろから読んだ順
+export interface ChainStep {
+    direction: ChainDirection;
+    prefix: string[];
+    candidates: number;
+    chosen: string;
+    weight: number;
+    totalWeight: number;
+}
+
+// 記録先の中身を steps に置き換える（再生成した場合は最後に生成した文章の連鎖だけを残す）
+function replaceTrace(generator: Generator, steps: ChainStep[]) {
+    generator.trace?.splice(0, generator.trace.length, ...steps);
+}
+
+// 境界トークンを取り除いて単語列を文字列に戻す
+export function joinWords(words: string[]): string {
+    return words.filter(word => word !== BOS_TOKEN && word !== EOS_TOKEN).join('');
+}
+
+// 出現回数で重み付けしてランダムに 1 つ選ぶ
+function pickWeighted<T extends { weight: number }>(random: Random, candidates: T[]): T {
+    const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+    let threshold = random() * total;
+    for (const candidate of candidates) {
+        threshold -= candidate.weight;
+        if (threshold < 0) {
+            return candidate;
+        }
+    }
+    return candidates[candidates.length - 1];
+}
+
+// 続く単語を探すステートメント（コーパスの条件はスコープによって変わるので、データベースと条件ごとに一度だけ準備する）
+const suffixStatements = new WeakMap<Database.Database, Map<string, Database.Statement>>();
+
+function getSuffixStatement(db: Database.Database, countQuery: string): Database.Statement {
+    let statements = suffixStatements.get(db);
+    if (!statements) {
+        statements = new Map();
+        suffixStatements.set(db, statements);
+    }
+    let statement = statements.get(countQuery);
+    if (!statement) {
+        statement = db.prepare(`
+            SELECT t.suffix, t.count, COALESCE(f.score, 0) AS score FROM (${countQuery}) t
+            LEFT JOIN transition_feedback f ON f.guild_id = ? AND f.direction = ? AND f.chain_order = ? AND f.prefix = ? AND f.suffix = t.suffix
+            ORDER BY t.suffix
+        `);
+        statements.set(countQuery, statement);
+    }
+    return statement;
+}
+
+// prefix に続く単語ごとの出現回数を求める問い合わせ（パラメーターは条件の値、direction・chain_order・prefix の順）
+// ユーザーを指定した場合は、他のユーザーの出現回数に引きずられないよう、そのユーザーのメッセージから学習した回数で数える
+function suffixCountQuery(scope: CorpusScope): { sql: string; params: string[] } {
+    if (scope.authorId) {
+        const { clause, params } = corpusCondition({ guildId: scope.guildId, channelId: scope.channelId });
+        // CROSS JOIN で prefix の索引から連鎖を絞り込んでから出典を数える
+        return {
+            sql: `
+                SELECT suffix, COUNT(*) AS count FROM markov_chain CROSS JOIN chain_sources ON chain_sources.chain_id = markov_chain.id
+                WHERE chain_sources.author_id = ? AND ${clause} AND direction = ? AND chain_order = ? AND prefix = ? GROUP BY suffix
+            `,
+            params: [scope.authorId, ...params],
+        };
+    }
+    const { clause, params } = corpusCondition(scope);
+    return {
+        sql: `SELECT suffix, SUM(count) AS count FROM markov_chain WHERE ${clause} AND direction = ? AND chain_order = ? AND prefix = ? GROUP BY suffix`,
+        params,
+    };
+}
+
+// 文脈（生成済みの単語列）から続く単語の候補を取得する
+// order 次の文脈に候補がない場合は、より短い文脈にバックオフする
+// （同じ乱数列から同じ結果になるよう、候補は単語順に並べる）
+// 評価はチャンネルを問わずギルドの遷移ごとに記録しているので、スコープに関係なく反映する
+function findSuffixes(db: Database.Database, scope: CorpusScope, context: string[], order: number, direction: ChainDirection): { prefix: string[]; suffixes: { suffix: string; weight: number }[] } {
+    const { sql, params } = suffixCountQuery(scope);
+    const statement = getSuffixStatement(db, sql);
+
+    for (let length = Math.min(order, context.length); length >= 1; length--) {
+        const prefix = context.slice(-length);
+        const key = prefixKey(prefix);
+        const rows = statement.all(...params, direction, length, key, scope.guildId, direction, length, key) as { suffix: string; count: number; score: number }[];
+        if (rows.length > 0) {
+            return { prefix, suffixes: rows.map(row => ({ suffix: row.suffix, weight: row.count * feedbackMultiplier(row.score) })) };
+        }
+    }
+
+    return { prefix: [], suffixes: [] };
+}
+
+// 文脈から連鎖をたどり、続く単語を生成した順に返す（文の境界に達するか maxWords で終了）
+// backward の場合、文脈は文の後ろから読んだ順に渡す
+function continueChain(generator: Generator, scope: CorpusScope, context: string[], maxWords: number, order: number, direction: ChainDirection = 'forward'): string[] {
+    const boundary = direction === 'forward' ? EOS_TOKEN : BOS_TOKEN;
+    const history = [...context];
+    const words: string[] = [];
+
+    for (let i = 0; i < maxWords; i++) {
+        const { prefix, suffixes } = findSuffixes(generator.db, scope, history, order, direction);
+        if (suffixes.length === 0) {
+            break;
+        }
+
+        const chosen = pickWeighted(generator.random, suffixes);
+        const nextSuffix = chosen.suffix;
+        generator.trace?.push({
+            direction,
+            prefix,
+            candidates: suffixes.length,
+            chosen: nextSuffix,
+            weight: chosen.weight,
+            totalWeight: suffixes.reduce((sum, suffix) => sum + suffix.weight, 0),
+        });
+        if (nextSuffix === boundary) {
+            break;
+        }
+        words.push(nextSuffix);
+        history.push(nextSuffix);
+    }
+
+    return words;
+}
+
+function clampChainOrder(order: number): number {
+    return Math.min(MAX_CHAIN_ORDER, Math.max(1, order));
+}
+
+// 文脈 order の連鎖で文章を生成する
+export async function generateMarkovSentence(generator: Generator, scope: CorpusScope, maxWords: number, order: number): Promise<string> {
+    try {
+        const { db, random } = generator;
+        const { clause, params } = corpusCondition(scope);
+        const chainOrder = clampChainOrder(order);
+        replaceTrace(generator, []);
+
+        // 文頭から始められる場合は BOS から、境界トークンのない古いデータのみの場合はランダムな位置から開始
+        const hasSentenceStart = db.prepare(
+            `SELECT 1 FROM markov_chain WHERE ${clause} AND direction = 'forward' AND chain_order = 1 AND prefix = ? LIMIT 1`
+        ).get(...params, BOS_TOKEN);
+        let startPrefix: string | undefined;
+        if (hasSentenceStart) {
+            startPrefix = prefixKey(Array(chainOrder).fill(BOS_TOKEN));
+        } else {
+            const condition = `${clause} AND direction = 'forward' AND chain_order <= ?`;
+            const { count } = db.prepare(`SELECT COUNT(*) AS count FROM markov_chain WHERE ${condition}`).get(...params, chainOrder) as { count: number };
+            const startRow = count > 0
+                ? db.prepare(`SELECT prefix FROM markov_chain WHERE ${condition} ORDER BY id LIMIT 1 OFFSET ?`)
+                    .get(...params, chainOrder, Math.floor(random() * count)) as { prefix: string } | undefined
+                : undefined;
+            startPrefix = startRow?.prefix;
+        }
+        if (startPrefix === undefined) {
+            return "データベースに十分なデータがありません。";
+        }
+
+        const context = startPrefix.split(PREFIX_SEPARATOR);
+        const sentence = [...context, ...continueChain(generator, scope, context, maxWords, chainOrder)];
+
+        return joinWords(sentence);
+    } catch (error) {
+        console.error("Error generating sentence:", error);
+        replaceTrace(generator, []);
+        return "文章の生成中にエラーが発生しました。";
+    }
+}
+
+// 応答の話題として扱う品詞と、除外する品詞細分類・語
+const KEYWORD_POS = new Set(['名詞', '動詞', '形容詞']);
+const KEYWORD_EXCLUDED_DETAILS = new Set(['非自立', '代名詞', '数', '接尾', '副詞可能']);
+const KEYWORD_STOP_WORDS = new Set(['する', 'いる', 'ある', 'なる', 'れる', 'られる', 'できる', 'くる', 'ない']);
+
+// 1 回の応答で生成する候補の数と、好ましい応答の長さ（文字数）
+const REPLY_CANDIDATES = 5;
+const REPLY_MIN_LENGTH = 10;
+const REPLY_MAX_LENGTH = 80;
+
+interface Keyword {
+    surface: string;
+    base: string;
+}
+
+// 形態素解析の結果から内容語（名詞・動詞・形容詞）を取り出す（原形で重複を除く）
+function extractKeywords(tokens: kuromoji.IpadicFeatures[]): Keyword[] {
+    const keywords = new Map<string, Keyword>();
+    for (const token of tokens) {
+        if (!KEYWORD_POS.has(token.pos) || KEYWORD_EXCLUDED_DETAILS.has(token.pos_detail_1)) continue;
+
+        const base = token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form;
+        if (!base.trim() || KEYWORD_STOP_WORDS.has(base) || keywords.has(base)) continue;
+        keywords.set(base, { surface: token.surface_form, base });
+    }
+    return [...keywords.values()];
+}
+
+// キーワードから文末・文頭の両方向へ生成し、キーワードが文中に来る文章を作る
+function generateAroundKeyword(generator: Generator, scope: CorpusScope, keyword: string, maxWords: number, order: number): string {
+    const after = continueChain(generator, scope, [keyword], maxWords, order, 'forward');
+    const before = continueChain(generator, scope, [...after].reverse().concat(keyword), maxWords - after.length, order, 'backward');
+    return joinWords([...before.reverse(), keyword, ...after]);
+}
+
+// 入力のキーワードをどれだけ含むかと長さで候補を評価する
+function scoreReply(tokenizer: Tokenizer, reply: string, inputBases: Set<string>): number {
+    const overlap = extractKeywords(tokenizer.tokenize(reply)).filter(keyword => inputBases.has(keyword.base)).length;
+    const lengthScore = reply.length >= REPLY_MIN_LENGTH && reply.length <= REPLY_MAX_LENGTH ? 1 : 0;
+    return overlap * 2 + lengthScore;
+}
+
+// 入力メッセージの内容語を話題にした応答を生成する（話題にできる語がなければランダム生成）
+export async function generateResponseFromMessage(generator: Generator, inputMessage: string, scope: CorpusScope, maxWords: number, order: number): Promise<string> {
+    try {
+        const { db, tokenizer, random } = generator;
+        if (!tokenizer) {
+            return "トークナイザーが準備できていません。";
+        }
+
+        // 入力メッセージを正規化してトークン化し、内容語を取り出す
+        const normalizedInput = normalizeContent(inputMessage, getContentFilter(db, scope.guildId));
+        const keywords = extractKeywords(tokenizer.tokenize(normalizedInput));
+
+        // コーパスに出現する形（表層形、なければ原形）のキーワードだけを起点にする
+        const { clause, params } = corpusCondition(scope);
+        const seedStmt = db.prepare(`SELECT 1 FROM markov_chain WHERE ${clause} AND direction = 'forward' AND chain_order = 1 AND prefix = ? LIMIT 1`);
+        const seeds = keywords
+            .map(keyword => [keyword.surface, keyword.base].find(word => seedStmt.get(...params, word)))
+            .filter((word): word is string => word !== undefined);
+
+        // 話題にできる単語がない場合はランダム生成
+        if (seeds.length === 0) {
+            return await generateMarkovSentence(generator, scope, maxWords, order);
+        }
+
+        // 複数の候補を生成し、入力との関連と長さで最もよいものを選ぶ
+        const chainOrder = clampChainOrder(order);
+        const inputBases = new Set(keywords.map(keyword => keyword.base));
+        let best: { reply: string; score: number; trace: ChainStep[] } | null = null;
+        for (let i = 0; i < REPLY_CANDIDATES; i++) {
+            const seed = seeds[Math.floor(random() * seeds.length)];
+            const trace: ChainStep[] = [];
+            const reply = generateAroundKeyword({ ...generator, trace }, scope, seed, maxWords, chainOrder);
+            if (reply === normalizedInput.trim()) continue;
+
+            const score = scoreReply(tokenizer, reply, inputBases);
+            if (!best || score > best.score) {
+                best = { reply, score, trace };
+            }
+        }
+
+        // 結果が短すぎる場合はランダム生成
+        if (!best || best.reply.length < REPLY_MIN_LENGTH) {
+            return await generateMarkovSentence(generator, scope, maxWords, order);
+        }
+
+        replaceTrace(generator, best.trace);
+        return best.reply;
+    } catch (error) {
+        console.error("Error generating response from message:", error);
+        replaceTrace(generator, []);
+        return "応答の生成中にエラーが発生しました。";
+    }
+}
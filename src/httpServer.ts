@@ -0,0 +1,100 @@
+import Database from 'better-sqlite3';
+import http from 'http';
+import { Client, Status } from 'discord.js';
+import { createGauge, renderMetrics } from './metrics';
+
+// Kuromoji の辞書の読み込み状態
+export type TokenizerState = 'loading' | 'ready' | 'failed';
+
+// 状態の確認に使うボット本体のクライアント・データベース・トークナイザーの状態
+export interface MonitoringSources {
+    client: Client;
+    db: Database.Database;
+    getTokenizerState(): TokenizerState;
+}
+
+export interface HealthStatus {
+    ok: boolean;
+    gateway: { status: string; ready: boolean; pingMs: number };
+    tokenizer: TokenizerState;
+    database: { reachable: boolean; error?: string };
+    uptimeSeconds: number;
+}
+
+function checkDatabase(db: Database.Database): HealthStatus['database'] {
+    try {
+        db.prepare('SELECT 1').get();
+        return { reachable: true };
+    } catch (error) {
+        return { reachable: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+// ゲートウェイに接続済み・トークナイザーの準備済み・DB に問い合わせ可能の場合に正常とする
+export function checkHealth(sources: MonitoringSources): HealthStatus {
+    const { client } = sources;
+    const gateway = { status: Status[client.ws.status] ?? String(client.ws.status), ready: client.isReady(), pingMs: client.ws.ping };
+    const tokenizer = sources.getTokenizerState();
+    const database = checkDatabase(sources.db);
+    return {
+        ok: gateway.ready && tokenizer === 'ready' && database.reachable,
+        gateway,
+        tokenizer,
+        database,
+        uptimeSeconds: Math.floor(process.uptime()),
+    };
+}
+
+// 出力のたびに現在の状態から求めるメトリクス（ゲージの登録は 1 回だけにし、サーバーの起動では参照先だけを差し替える）
+let monitoredSources: MonitoringSources | undefined;
+
+createGauge('markov_bot_up', 'Whether the bot is healthy (gateway ready, tokenizer loaded and database reachable).', () =>
+    monitoredSources ? [{ value: checkHealth(monitoredSources).ok ? 1 : 0 }] : []
+);
+createGauge('markov_bot_gateway_ping_seconds', 'Latest gateway heartbeat latency.', () =>
+    monitoredSources ? [{ value: Math.max(0, monitoredSources.client.ws.ping) / 1000 }] : []
+);
+createGauge('markov_bot_crawl_jobs', 'Crawl jobs by status.', () =>
+    monitoredSources
+        ? (monitoredSources.db.prepare('SELECT status, COUNT(*) AS count FROM crawl_jobs GROUP BY status').all() as { status: string; count: number }[])
+            .map(row => ({ labels: { status: row.status }, value: row.count }))
+        : []
+);
+
+function send(res: http.ServerResponse, status: number, contentType: string, body: string) {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+}
+
+// /healthz（正常なら 200、それ以外は 503）と /metrics を返す HTTP サーバーを起動する
+export function startHttpServer(sources: MonitoringSources, port: number, host: string): http.Server {
+    monitoredSources = sources;
+
+    const server = http.createServer((req, res) => {
+        const path = (req.url ?? '/').split('?')[0];
+        if (req.method !== 'GET' && req.method !== 'HEAD') {
+            send(res, 405, 'text/plain; charset=utf-8', 'Method Not Allowed\n');
+            return;
+        }
+
+        try {
+            if (path === '/healthz') {
+                const health = checkHealth(sources);
+                send(res, health.ok ? 200 : 503, 'application/json; charset=utf-8', JSON.stringify(health) + '\n');
+            } else if (path === '/metrics') {
+                send(res, 200, 'text/plain; version=0.0.4; charset=utf-8', renderMetrics());
+            } else {
+                send(res, 404, 'text/plain; charset=utf-8', 'Not Found\n');
+            }
+        } catch (error) {
+            console.error('Error handling HTTP request:', error);
+            send(res, 500, 'text/plain; charset=utf-8', 'Internal Server Error\n');
+        }
+    });
+
+    server.on('error', error => console.error('HTTP server error:', error));
+    server.listen(port, host, () => {
+        console.log(`HTTP server listening on http://${host}:${port} (/healthz, /metrics).`);
+    });
+    return server;
+}
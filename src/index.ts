@@ -1,21 +1,33 @@
-import { Client, GatewayIntentBits, VoiceBasedChannel, Message, Collection, SlashCommandBuilder, REST, Routes, ChatInputCommandInteraction } from 'discord.js';
+import { Client, GatewayIntentBits, Message, REST, Partials } from 'discord.js';
 import dotenv from 'dotenv';
-import Database from 'better-sqlite3';
-import kuromoji from 'kuromoji';
+import { DEFAULT_CORPUS_GUILD_ID, DEFAULT_DB_PATH, openDatabase } from './database';
+import { CorpusScope, mergeDefaultCorpus } from './corpus';
+import { Learner, Tokenizer, buildTokenizer, forgetSources, learnText } from './learning';
+import { ChainStep, GenerationOptions, Generator, generateMarkovSentence, generateResponseFromMessage } from './generation';
+import { CRAWL_BATCH_DELAY_MS, Crawler, formatCrawlJob, getCrawlJob, recordLiveLearnedMessage, resolveCrawlChannels, runCrawlQueue, setCrawlJobStatus, updateCrawlStatusMessage } from './crawl';
+import { AFK_CHECK_INTERVAL_MS, VOICE_HEARTBEAT_INTERVAL_MS, VoiceTracker, handleVoiceStateUpdate, processAfkTimers, reconcileAfkTimers, reconcileVoiceSessions, refreshAfkTimers } from './voice';
+import { CommandContext, deployCommandDefinitions, dispatchAutocomplete, dispatchCommand, getCommandDefinitions, loadCommands, watchCommands } from './commandRegistry';
+import { botLastSpokeAt, canAutoRespondIn, checkRateLimit, pendingReplyChannels, recordReply } from './rateLimit';
+import { autoResponsesSent, generationDuration, transitionsInserted } from './metrics';
+import { TokenizerState, startHttpServer } from './httpServer';
+import { FeedbackTracker, handleFeedbackReaction, isBlacklistedOutput, recordGeneratedMessage } from './feedback';
+import { GuildSettings } from './types';
 
 dotenv.config();
 
 // Kuromoji の Tokenizer インスタンス
-let tokenizer: any;
+let tokenizer: Tokenizer | undefined;
+let tokenizerState: TokenizerState = 'loading';
 
 // Kuromoji Tokenizer の初期化
-kuromoji.builder({ dicPath: 'node_modules/kuromoji/dict' }).build((err: any, builtTokenizer: any) => {
-    if (err) {
-        console.error('Kuromoji build error:', err);
-        process.exit(1);
-    }
+buildTokenizer().then(builtTokenizer => {
     tokenizer = builtTokenizer;
+    tokenizerState = 'ready';
     console.log('Kuromoji tokenizer ready.');
+}).catch(err => {
+    tokenizerState = 'failed';
+    console.error('Kuromoji build error:', err);
+    process.exit(1);
 });
 
 const client = new Client({
@@ -24,14 +36,18 @@ const client = new Client({
         GatewayIntentBits.GuildVoiceStates,
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
-    ]
+        GatewayIntentBits.GuildMessageReactions,
+    ],
+    // キャッシュにないメッセージの削除やリアクションも受け取る（再起動前に送った文章への評価のため）
+    partials: [Partials.Message, Partials.Reaction, Partials.User],
+    // 学習したテキストに含まれるメンションで誰かに通知が飛ばないようにする
+    allowedMentions: { parse: [], repliedUser: true }
 });
 
 // better-sqlite3 データベース初期化
-const db = new Database('markov_chain.db');
+const DB_PATH = process.env.DATABASE_PATH || DEFAULT_DB_PATH;
+const db = openDatabase(DB_PATH);
 
-// テーブル作成
-db.exec("CREATE TABLE IF NOT EXISTS markov_chain (prefix1 TEXT, prefix2 TEXT, suffix TEXT, UNIQUE(prefix1, prefix2, suffix))");
 
 // --- Promise-based DB functions for better-sqlite3 ---
 function dbGet(query: string, params: any[]): any {
@@ -53,471 +69,392 @@ function dbAll(query: string, params: any[]): any[] {
 }
 // --------------------------------
 
-const INACTIVE_CHANNEL_ID = process.env.INACTIVE_CHANNEL_ID;
+const INACTIVE_CHANNEL_ID = process.env.INACTIVE_CHANNEL_ID; // ギルド設定の初期値
 const DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN;
-const MESSAGE_CRAWLING_ID = process.env.MESSAGE_CRAWLING_ID;
+const MESSAGE_CRAWLING_ID = process.env.MESSAGE_CRAWLING_ID; // ギルド設定の初期値
 const CLIENT_ID = process.env.CLIENT_ID; // アプリケーションIDが必要
-const ADMIN_USER_ID = process.env.ADMIN_USER_ID; // 管理者ユーザーID
+const ADMIN_USER_ID = process.env.ADMIN_USER_ID; // ボット管理者ユーザーID（すべてのコマンドを実行可能）
+const HTTP_PORT = process.env.HTTP_PORT; // 設定した場合のみ /healthz と /metrics を公開する
+const HTTP_HOST = process.env.HTTP_HOST || '127.0.0.1';
 
-if (!INACTIVE_CHANNEL_ID || !DISCORD_BOT_TOKEN || !MESSAGE_CRAWLING_ID || !CLIENT_ID) {
+if (!DISCORD_BOT_TOKEN || !CLIENT_ID) {
     console.error('One or more environment variables are not defined in .env file.');
-    console.error('Required: INACTIVE_CHANNEL_ID, DISCORD_BOT_TOKEN, MESSAGE_CRAWLING_ID, CLIENT_ID');
-    console.error('Optional: ADMIN_USER_ID (for crawling command restrictions)');
+    console.error('Required: DISCORD_BOT_TOKEN, CLIENT_ID');
+    console.error('Optional: ADMIN_USER_ID (bot owner allowed to run every command)');
+    console.error('Optional: INACTIVE_CHANNEL_ID, MESSAGE_CRAWLING_ID (defaults for new guild settings)');
+    console.error('Optional: HTTP_PORT, HTTP_HOST (health check and metrics endpoint)');
     process.exit(1);
 }
 
-const userMuteStartTime = new Map<string, number>();
-
-// 自動応答の設定
-let autoResponseMode: 'mention_only' | 'random' | 'disabled' = 'random';
-
-// スラッシュコマンドの定義
-const commands = [
-    new SlashCommandBuilder()
-        .setName('crawling')
-        .setDescription('メッセージをクロールしてマルコフ連鎖データベースを更新します')
-        .addIntegerOption(option =>
-            option.setName('count')
-                .setDescription('取得するメッセージ数（デフォルト: 2000）')
-                .setRequired(false)
-                .setMinValue(100)
-                .setMaxValue(10000)
-        ),
-    new SlashCommandBuilder()
-        .setName('generate')
-        .setDescription('マルコフ連鎖を使用して文章を生成します')
-        .addIntegerOption(option =>
-            option.setName('length')
-                .setDescription('生成する最大単語数（デフォルト: 50）')
-                .setRequired(false)
-                .setMinValue(10)
-                .setMaxValue(200)
-        )
-        .addStringOption(option =>
-            option.setName('input')
-                .setDescription('この文章を元に応答を生成します（省略時はランダム生成）')
-                .setRequired(false)
-        ),
-    new SlashCommandBuilder()
-        .setName('stats')
-        .setDescription('データベースの統計情報を表示します'),
-    new SlashCommandBuilder()
-        .setName('autoresponse')
-        .setDescription('自動応答機能の設定を変更します')
-        .addStringOption(option =>
-            option.setName('mode')
-                .setDescription('自動応答モード')
-                .setRequired(true)
-                .addChoices(
-                    { name: '有効（メンション時のみ）', value: 'mention_only' },
-                    { name: '有効（ランダム応答あり）', value: 'random' },
-                    { name: '無効', value: 'disabled' }
-                )
-        )
-].map(command => command.toJSON());
+// 学習を拒否したユーザー（クロール・リアルタイム学習の両方で除外）
+const optedOutUsers = new Set<string>(
+    dbAll('SELECT user_id FROM privacy_optouts', []).map(row => row.user_id)
+);
+
+// /imitate で模倣されることに同意したユーザー
+const imitationConsents = new Set<string>(
+    dbAll('SELECT user_id FROM imitation_consents', []).map(row => row.user_id)
+);
+
+// リアルタイム学習が有効なチャンネル（messageCreate で毎回 DB を引かないようにキャッシュ）
+const learningChannels = new Set<string>(
+    dbAll('SELECT channel_id FROM learning_channels', []).map(row => row.channel_id)
+);
+
+const guildSettingsCache = new Map<string, GuildSettings>();
+
+// 環境変数のチャンネルがこのギルドのものであれば返す（初回起動時の初期値として使う）
+function envChannelForGuild(guildId: string, channelId: string | undefined): string | null {
+    if (!channelId) return null;
+    const channel = client.channels.cache.get(channelId);
+    return channel && !channel.isDMBased() && channel.guildId === guildId ? channelId : null;
+}
+
+function defaultGuildSettings(guildId: string): GuildSettings {
+    const crawlChannelId = envChannelForGuild(guildId, MESSAGE_CRAWLING_ID);
+    return {
+        autoResponseMode: 'random',
+        responseProbability: 0.5,
+        allowedChannels: [],
+        ignoredChannels: [],
+        responseCooldownSeconds: 0,
+        userCooldownSeconds: 10,
+        maxRepliesPerMinute: 10,
+        botSilenceSeconds: 3,
+        chainOrder: 2,
+        afkChannelId: envChannelForGuild(guildId, INACTIVE_CHANNEL_ID),
+        muteTimeoutMinutes: 30,
+        afkCountMute: true,
+        afkCountDeafen: true,
+        afkCountAlone: false,
+        afkWarningMinutes: 5,
+        afkWarningMode: 'dm',
+        afkLogChannelId: null,
+        afkExemptRoles: [],
+        afkExemptChannels: [],
+        crawlChannels: crawlChannelId ? [crawlChannelId] : [],
+        feedbackUpEmoji: '👍',
+        feedbackDownEmoji: '👎',
+        feedbackBlacklistEmoji: '🚫',
+    };
+}
+
+function saveGuildSettings(guildId: string, settings: GuildSettings) {
+    db.prepare(`
+        INSERT OR REPLACE INTO guild_settings (guild_id, auto_response_mode, response_probability, allowed_channels, ignored_channels,
+            response_cooldown_seconds, user_cooldown_seconds, max_replies_per_minute, bot_silence_seconds, chain_order,
+            afk_channel_id, mute_timeout_minutes, afk_count_mute, afk_count_deafen, afk_count_alone, afk_warning_minutes,
+            afk_warning_mode, afk_log_channel_id, afk_exempt_roles, afk_exempt_channels, crawl_channels,
+            feedback_up_emoji, feedback_down_emoji, feedback_blacklist_emoji)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        guildId, settings.autoResponseMode, settings.responseProbability, JSON.stringify(settings.allowedChannels),
+        JSON.stringify(settings.ignoredChannels), settings.responseCooldownSeconds, settings.userCooldownSeconds,
+        settings.maxRepliesPerMinute, settings.botSilenceSeconds, settings.chainOrder, settings.afkChannelId,
+        settings.muteTimeoutMinutes, settings.afkCountMute ? 1 : 0, settings.afkCountDeafen ? 1 : 0, settings.afkCountAlone ? 1 : 0,
+        settings.afkWarningMinutes, settings.afkWarningMode, settings.afkLogChannelId, JSON.stringify(settings.afkExemptRoles),
+        JSON.stringify(settings.afkExemptChannels), JSON.stringify(settings.crawlChannels),
+        settings.feedbackUpEmoji, settings.feedbackDownEmoji, settings.feedbackBlacklistEmoji
+    );
+    guildSettingsCache.set(guildId, settings);
+}
+
+// ギルドの設定を取得する（未作成の場合は環境変数を初期値として作成）
+function getGuildSettings(guildId: string): GuildSettings {
+    const cached = guildSettingsCache.get(guildId);
+    if (cached) return cached;
+
+    const row = dbGet('SELECT * FROM guild_settings WHERE guild_id = ?', [guildId]);
+    if (!row) {
+        const settings = defaultGuildSettings(guildId);
+        saveGuildSettings(guildId, settings);
+        return settings;
+    }
+
+    const settings: GuildSettings = {
+        autoResponseMode: row.auto_response_mode,
+        responseProbability: row.response_probability,
+        allowedChannels: JSON.parse(row.allowed_channels),
+        ignoredChannels: JSON.parse(row.ignored_channels),
+        responseCooldownSeconds: row.response_cooldown_seconds,
+        userCooldownSeconds: row.user_cooldown_seconds,
+        maxRepliesPerMinute: row.max_replies_per_minute,
+        botSilenceSeconds: row.bot_silence_seconds,
+        chainOrder: row.chain_order,
+        afkChannelId: row.afk_channel_id,
+        muteTimeoutMinutes: row.mute_timeout_minutes,
+        afkCountMute: row.afk_count_mute === 1,
+        afkCountDeafen: row.afk_count_deafen === 1,
+        afkCountAlone: row.afk_count_alone === 1,
+        afkWarningMinutes: row.afk_warning_minutes,
+        afkWarningMode: row.afk_warning_mode,
+        afkLogChannelId: row.afk_log_channel_id,
+        afkExemptRoles: JSON.parse(row.afk_exempt_roles),
+        afkExemptChannels: JSON.parse(row.afk_exempt_channels),
+        crawlChannels: JSON.parse(row.crawl_channels),
+        feedbackUpEmoji: row.feedback_up_emoji,
+        feedbackDownEmoji: row.feedback_down_emoji,
+        feedbackBlacklistEmoji: row.feedback_blacklist_emoji,
+    };
+    guildSettingsCache.set(guildId, settings);
+    return settings;
+}
+
+function updateGuildSettings(guildId: string, changes: Partial<GuildSettings>): GuildSettings {
+    const settings = { ...getGuildSettings(guildId), ...changes };
+    saveGuildSettings(guildId, settings);
+    return settings;
+}
+
+// スラッシュコマンド（定義・権限・処理は src/commands の各モジュールにある）
+let commands = loadCommands();
 
 // スラッシュコマンドの登録
 const rest = new REST({ version: '10' }).setToken(DISCORD_BOT_TOKEN);
 
+// 前回の登録から定義が変わった場合のみ登録する
 async function deployCommands() {
     try {
-        console.log('Started refreshing application (/) commands.');
-
         // テスト用：特定のギルド（サーバー）にコマンドを登録（即座に反映）
+        // GUILD_ID がない場合はグローバルコマンド（反映に時間がかかる）
         const GUILD_ID = process.env.GUILD_ID; // .envに追加
-        
-        if (GUILD_ID) {
-            await rest.put(
-                Routes.applicationGuildCommands(CLIENT_ID!, GUILD_ID),
-                { body: commands },
-            );
-            console.log('Successfully reloaded guild-specific (/) commands.');
+
+        const deployed = await deployCommandDefinitions(db, rest, CLIENT_ID!, GUILD_ID, getCommandDefinitions(commands));
+        if (deployed) {
+            console.log(`Successfully reloaded ${GUILD_ID ? 'guild-specific' : 'global'} (/) commands.`);
         } else {
-            // グローバルコマンド（反映に時間がかかる）
-            await rest.put(
-                Routes.applicationCommands(CLIENT_ID!),
-                { body: commands },
-            );
-            console.log('Successfully reloaded global (/) commands.');
+            console.log('Application (/) commands are up to date.');
         }
     } catch (error) {
         console.error('Error deploying commands:', error);
     }
 }
 
+// 開発時はコマンドモジュールの変更を監視し、読み直して登録し直す
+if (process.env.COMMAND_HOT_RELOAD === 'true') {
+    watchCommands(() => {
+        try {
+            commands = loadCommands(true);
+            console.log(`Reloaded ${commands.size} commands.`);
+        } catch (error) {
+            console.error('Error reloading commands:', error);
+            return;
+        }
+        void deployCommands();
+    });
+}
+
 client.once('ready', async () => {
     console.log(`Logged in as ${client.user?.tag}!`);
     
     // スラッシュコマンドをデプロイ
     await deployCommands();
 
-    setInterval(() => {
-        for (const [userId, muteStartTime] of userMuteStartTime.entries()) {
-            client.guilds.cache.forEach(guild => {
-                const voiceState = guild.voiceStates.cache.get(userId);
-
-                if (voiceState && voiceState.channelId && voiceState.channelId !== INACTIVE_CHANNEL_ID) {
-                    if (voiceState.selfMute || voiceState.serverMute) {
-                        const currentTime = Date.now();
-                        const timeElapsed = currentTime - muteStartTime;
-
-                        if (timeElapsed >= 30 * 60 * 1000) {
-                            const inactiveChannel = guild.channels.cache.get(INACTIVE_CHANNEL_ID) as VoiceBasedChannel;
-                            if (inactiveChannel && voiceState.member) {
-                                voiceState.setChannel(inactiveChannel).catch(console.error);
-                                userMuteStartTime.delete(userId);
-                            }
-                        }
-                    } else {
-                        userMuteStartTime.delete(userId);
-                    }
-                } else {
-                    userMuteStartTime.delete(userId);
-                }
-            });
-        }
-    }, 60 * 1000);
-});
+    // 移行前のデータをギルドのコーパスへ割り当て
+    await claimDefaultCorpus();
 
-client.on('voiceStateUpdate', (oldState, newState) => {
-    const userId = newState.member?.id;
-    if (!userId) return;
+    // 再起動前に実行中・待機中だったクロールジョブを再開
+    void runCrawlQueue(crawler);
 
-    const wasMuted = oldState.selfMute || oldState.serverMute;
-    const isMuted = newState.selfMute || newState.serverMute;
+    // 停止中に変わったボイスチャンネルの状態を AFK タイマーへ反映し、1 分ごとに移動を判定
+    reconcileAfkTimers(voiceTracker);
+    setInterval(() => {
+        processAfkTimers(voiceTracker).catch(error => console.error('Error processing AFK timers:', error));
+    }, AFK_CHECK_INTERVAL_MS);
 
-    if (newState.channelId) {
-        if (!wasMuted && isMuted) {
-            userMuteStartTime.set(userId, Date.now());
-        } else if (wasMuted && !isMuted) {
-            userMuteStartTime.delete(userId);
-        }
-        if (newState.channelId === INACTIVE_CHANNEL_ID) {
-            userMuteStartTime.delete(userId);
-        }
-    } else if (oldState.channelId && !newState.channelId) {
-        userMuteStartTime.delete(userId);
-    }
+    // 停止前の滞在記録を閉じ、いまボイスチャンネルにいるメンバーの記録を始める
+    reconcileVoiceSessions(voiceTracker);
+    setInterval(() => {
+        db.prepare('UPDATE voice_sessions SET last_seen_at = ? WHERE ended_at IS NULL').run(Date.now());
+    }, VOICE_HEARTBEAT_INTERVAL_MS);
 });
 
-async function generateMarkovSentence(maxWords = 50): Promise<string> {
-    try {
-        const startRow = dbGet('SELECT prefix1, prefix2 FROM markov_chain ORDER BY RANDOM() LIMIT 1', []);
-        if (!startRow) {
-            return "データベースに十分なデータがありません。";
-        }
+// AFK の判定とボイスチャンネルの滞在記録
+const voiceTracker: VoiceTracker = { db, client, getGuildSettings };
 
-        let { prefix1, prefix2 } = startRow;
-        const sentence = [prefix1, prefix2];
+client.on('voiceStateUpdate', (oldState, newState) => {
+    handleVoiceStateUpdate(voiceTracker, oldState, newState);
+});
 
-        for (let i = 0; i < maxWords; i++) {
-            const suffixes = dbAll('SELECT suffix FROM markov_chain WHERE prefix1 = ? AND prefix2 = ?', [prefix1, prefix2]);
-            if (suffixes.length === 0) {
-                break;
-            }
+// デフォルトコーパス（移行前のデータ）を MESSAGE_CRAWLING_ID のチャンネルが属するギルドへ割り当てる
+async function claimDefaultCorpus() {
+    if (!MESSAGE_CRAWLING_ID) return;
 
-            const nextSuffix = suffixes[Math.floor(Math.random() * suffixes.length)].suffix;
-            sentence.push(nextSuffix);
+    const row = dbGet('SELECT COUNT(*) AS count FROM markov_chain WHERE guild_id = ?', [DEFAULT_CORPUS_GUILD_ID]);
+    if (!row || row.count === 0) return;
 
-            prefix1 = prefix2;
-            prefix2 = nextSuffix;
+    try {
+        const channel = await client.channels.fetch(MESSAGE_CRAWLING_ID);
+        if (!channel || channel.isDMBased()) {
+            console.warn('Default corpus could not be assigned: MESSAGE_CRAWLING_ID is not a guild channel.');
+            return;
         }
 
-        return sentence.join('');
+        mergeDefaultCorpus(db, channel.guildId, channel.id);
+        console.log(`Default corpus (${row.count} chains) assigned to guild ${channel.guildId}.`);
     } catch (error) {
-        console.error("Error generating sentence:", error);
-        return "文章の生成中にエラーが発生しました。";
+        console.error('Error assigning default corpus:', error);
     }
 }
 
-async function generateResponseFromMessage(inputMessage: string, maxWords = 50): Promise<string> {
-    try {
-        if (!tokenizer) {
-            return "トークナイザーが準備できていません。";
-        }
-
-        // 入力メッセージをトークン化
-        const tokens = tokenizer.tokenize(inputMessage);
-        const words = tokens.map((t: any) => t.surface_form);
-        
-        if (words.length < 2) {
-            // 短すぎる場合はランダム生成
-            return await generateMarkovSentence(maxWords);
-        }
-
-        // 入力メッセージの最後の2単語を取得
-        const lastTwoWords = words.slice(-2);
-        let prefix1 = lastTwoWords[0];
-        let prefix2 = lastTwoWords[1] || "";
-
-        // 入力の最後の単語から始まる連鎖を探す
-        let startCandidates = dbAll('SELECT prefix1, prefix2 FROM markov_chain WHERE prefix1 = ? OR prefix2 = ?', [prefix1, prefix2]);
-        
-        // 候補がない場合は、入力メッセージの任意の単語を使用
-        if (startCandidates.length === 0) {
-            for (const word of words) {
-                startCandidates = dbAll('SELECT prefix1, prefix2 FROM markov_chain WHERE prefix1 = ? OR prefix2 = ?', [word, word]);
-                if (startCandidates.length > 0) {
-                    break;
-                }
-            }
-        }
-
-        // それでも見つからない場合はランダム生成
-        if (startCandidates.length === 0) {
-            return await generateMarkovSentence(maxWords);
-        }
-
-        // ランダムに開始点を選択
-        const startPoint = startCandidates[Math.floor(Math.random() * startCandidates.length)];
-        prefix1 = startPoint.prefix1;
-        prefix2 = startPoint.prefix2;
-
-        const sentence = [prefix1, prefix2];
-
-        // マルコフ連鎖で文章を生成
-        for (let i = 0; i < maxWords; i++) {
-            const suffixes = dbAll('SELECT suffix FROM markov_chain WHERE prefix1 = ? AND prefix2 = ?', [prefix1, prefix2]);
-            if (suffixes.length === 0) {
-                break;
-            }
-
-            const nextSuffix = suffixes[Math.floor(Math.random() * suffixes.length)].suffix;
-            sentence.push(nextSuffix);
-
-            prefix1 = prefix2;
-            prefix2 = nextSuffix;
-        }
-
-        const result = sentence.join('');
-        
-        // 結果が短すぎる場合は再試行
-        if (result.length < 10) {
-            return await generateMarkovSentence(maxWords);
-        }
-
-        return result;
-    } catch (error) {
-        console.error("Error generating response from message:", error);
-        return "応答の生成中にエラーが発生しました。";
-    }
+// 学習に使う DB・トークナイザー・学習を拒否したユーザー（トークナイザーの準備前は undefined）
+function getLearner(): Learner | undefined {
+    return tokenizer ? { db, tokenizer, optedOutUsers } : undefined;
 }
 
-async function handleCrawlingCommand(interaction: ChatInputCommandInteraction) {
-    // 管理者権限チェック
-    if (ADMIN_USER_ID && interaction.user.id !== ADMIN_USER_ID) {
-        await interaction.reply({ 
-            content: '❌ このコマンドは管理者のみ実行できます。', 
-            ephemeral: true 
-        });
-        return;
-    }
+// 生成文が禁止語を含む（または使わせないようにした文章と同じ）場合は再生成する回数の上限
+const MAX_GENERATION_ATTEMPTS = 5;
 
-    if (!tokenizer) {
-        await interaction.reply({ content: 'Tokenizer is not ready yet. Please wait a moment and try again.', ephemeral: true });
-        return;
-    }
+function getBlockedWords(guildId: string): string[] {
+    return dbAll('SELECT word FROM blocked_words WHERE guild_id = ?', [guildId]).map(row => row.word);
+}
 
-    const messageCount = interaction.options.getInteger('count') ?? 2000;
+// 禁止語を含まず、リアクションで使わせないようにした文章でもないものが得られるまで generate を繰り返す
+// 諦めた場合は、generate が連鎖を記録した trace を空にする（返す文章は生成したものではないため）
+async function generateWithBlocklist(guildId: string, generate: () => Promise<string>, trace?: ChainStep[]): Promise<string> {
+    const blockedWords = getBlockedWords(guildId).map(word => word.toLowerCase());
 
-    const channelToCrawl = await client.channels.fetch(MESSAGE_CRAWLING_ID!);
-    if (!channelToCrawl || !channelToCrawl.isTextBased()) {
-        await interaction.reply({ content: 'The channel specified in MESSAGE_CRAWLING_ID is not a valid text channel.', ephemeral: true });
-        return;
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+        const sentence = await generate();
+        const lowerSentence = sentence.toLowerCase();
+        if (!blockedWords.some(word => lowerSentence.includes(word)) && !isBlacklistedOutput(db, guildId, sentence)) {
+            return sentence;
+        }
     }
 
-    await interaction.reply(`🔍 クロールを開始しました... ${messageCount}件のメッセージを取得します。しばらくお待ちください。`);
-    console.log(`Crawling started for ${messageCount} messages by user: ${interaction.user.tag} (${interaction.user.id})`);
+    console.log(`Gave up generating a sentence without blocked words in guild ${guildId}.`);
+    trace?.splice(0);
+    return "禁止語を含まない文章を生成できませんでした。";
+}
 
-    let lastId: string | undefined;
-    const allMessages: Message[] = [];
-    const fetchLimit = 100;
+// 生成に使う DB・トークナイザー・乱数（次数の指定がなければギルドの設定の次数を使う）
+function getGenerator(options: GenerationOptions = {}): Generator {
+    return { db, tokenizer, random: options.random ?? Math.random, trace: options.trace };
+}
 
+// 生成にかかった時間をメトリクスに記録する
+async function measureGeneration(type: 'sentence' | 'response', generate: () => Promise<string>): Promise<string> {
+    const startedAt = performance.now();
     try {
-        // メッセージ取得フェーズ
-        while (allMessages.length < messageCount) {
-            const options: { limit: number; before?: string } = { limit: fetchLimit };
-            if (lastId) {
-                options.before = lastId;
-            }
-
-            const messages: Collection<string, Message> = await channelToCrawl.messages.fetch(options);
-            if (messages.size === 0) break;
-            
-            const messageArray = Array.from(messages.values());
-            for (const msg of messageArray) {
-                if (allMessages.length < messageCount) {
-                    allMessages.push(msg);
-                } else {
-                    break;
-                }
-            }
-            
-            lastId = messageArray[messageArray.length - 1].id;
-            console.log(`Fetched ${allMessages.length}/${messageCount} messages...`);
-            
-            // 進捗を更新（1000件ごと）
-            if (allMessages.length % 1000 === 0) {
-                await interaction.editReply(`🔍 ${allMessages.length}/${messageCount} 件のメッセージを取得しました...`);
-            }
-            
-            if (messages.size < fetchLimit) break;
-        }
-
-        console.log(`Total messages fetched: ${allMessages.length}. Now processing...`);
-        await interaction.editReply(`📊 ${allMessages.length}件のメッセージを取得完了。データベースに保存中...`);
-
-        // データベース処理フェーズ - better-sqlite3のトランザクション使用
-        const insertStmt = db.prepare("INSERT OR IGNORE INTO markov_chain (prefix1, prefix2, suffix) VALUES (?, ?, ?)");
-        
-        const transaction = db.transaction((messages: Message[]) => {
-            let processedMessages = 0;
-            let insertedChains = 0;
-
-            for (const msg of messages) {
-                if (!msg.content) continue;
-                
-                try {
-                    const tokens = tokenizer.tokenize(msg.content);
-                    const words = tokens.map((t: any) => t.surface_form);
-
-                    if (words.length < 3) continue;
+        return await generate();
+    } finally {
+        generationDuration.observe({ type }, (performance.now() - startedAt) / 1000);
+    }
+}
 
-                    for (let i = 0; i < words.length - 2; i++) {
-                        if (words[i] && words[i + 1] && words[i + 2]) {
-                            const result = insertStmt.run(words[i], words[i + 1], words[i + 2]);
-                            if (result.changes > 0) {
-                                insertedChains++;
-                            }
-                        }
-                    }
-                    processedMessages++;
-                } catch (tokenizeError) {
-                    console.error('Error tokenizing message:', tokenizeError);
-                    continue;
-                }
-            }
+function generateSentence(scope: CorpusScope, maxWords = 50, order?: number, options?: GenerationOptions): Promise<string> {
+    return measureGeneration('sentence', () =>
+        generateMarkovSentence(getGenerator(options), scope, maxWords, order ?? getGuildSettings(scope.guildId).chainOrder)
+    );
+}
 
-            console.log(`Processed ${processedMessages} messages, inserted ${insertedChains} new markov chains.`);
-            return { processedMessages, insertedChains };
-        });
+function generateResponse(inputMessage: string, scope: CorpusScope, maxWords = 50, order?: number, options?: GenerationOptions): Promise<string> {
+    return measureGeneration('response', () =>
+        generateResponseFromMessage(getGenerator(options), inputMessage, scope, maxWords, order ?? getGuildSettings(scope.guildId).chainOrder)
+    );
+}
 
-        // トランザクション実行
-        const result = transaction(allMessages);
-        
-        console.log('Crawling finished.');
-        await interaction.editReply(`✅ クロール完了！\n📝 ${result.processedMessages}件のメッセージを処理し、${result.insertedChains}個の新しいマルコフ連鎖をデータベースに追加しました。`);
+// クロールジョブの実行に使うクライアントと Learner
+const crawler: Crawler = { db, client, getLearner, batchDelayMs: CRAWL_BATCH_DELAY_MS };
 
-    } catch (error) {
-        console.error('An error occurred during crawling:', error);
-        await interaction.editReply('❌ クロール中にエラーが発生しました。コンソールで詳細を確認してください。');
-    }
-}
+// 新着メッセージを学習し、学習済みとして記録する（次回の /crawling で重複して学習しないため）
+function learnLiveMessage(message: Message) {
+    const learner = getLearner();
+    if (!learner || !message.guildId || !message.content) return;
 
-async function handleGenerateCommand(interaction: ChatInputCommandInteraction) {
-    const maxWords = interaction.options.getInteger('length') ?? 50;
-    const inputText = interaction.options.getString('input');
-    
-    await interaction.deferReply();
-    
     try {
-        let sentence: string;
-        
-        if (inputText) {
-            // 入力テキストを元に応答生成
-            sentence = await generateResponseFromMessage(inputText, maxWords);
-        } else {
-            // ランダム生成
-            sentence = await generateMarkovSentence(maxWords);
-        }
-        
-        await interaction.editReply(`🤖 生成された文章:\n\n${sentence}`);
+        db.transaction(() => {
+            const transitions = learnText(learner, message.guildId!, message.channelId, message.content, { messageId: message.id, authorId: message.author.id });
+            transitionsInserted.inc({ source: 'live' }, transitions);
+            recordLiveLearnedMessage(db, message.channelId, message.id);
+        })();
     } catch (error) {
-        console.error('Error generating sentence:', error);
-        await interaction.editReply('❌ 文章生成中にエラーが発生しました。');
+        console.error('Error learning message:', error);
     }
 }
 
-async function handleAutoResponseCommand(interaction: ChatInputCommandInteraction) {
-    const mode = interaction.options.getString('mode') as 'mention_only' | 'random' | 'disabled';
-    
-    autoResponseMode = mode;
-    
-    const modeDescriptions = {
-        'mention_only': '🔔 メンション時のみ自動応答',
-        'random': '🎲 ランダム自動応答有効（50%の確率 + メンション時）',
-        'disabled': '🔕 自動応答無効'
-    };
-    
-    await interaction.reply(`⚙️ 自動応答設定を変更しました: ${modeDescriptions[mode]}`);
-}
-
-// 新しいhandleStatsCommand関数は上記で既に更新済み
+// コマンドの処理に渡すボット本体の状態と機能
+const commandContext: CommandContext = {
+    client,
+    db,
+    dbPath: DB_PATH,
+    adminUserId: ADMIN_USER_ID,
+    dbGet,
+    dbAll,
+    getTokenizer: () => tokenizer,
+    getGuildSettings,
+    updateGuildSettings,
+    optedOutUsers,
+    imitationConsents,
+    learningChannels,
+    forgetSources: (column, value, guildId) => forgetSources(db, column, value, guildId),
+    getBlockedWords,
+    generateWithBlocklist,
+    generateMarkovSentence: generateSentence,
+    generateResponseFromMessage: generateResponse,
+    getCrawlJob: jobId => getCrawlJob(db, jobId),
+    setCrawlJobStatus: (jobId, status, error) => setCrawlJobStatus(db, jobId, status, error),
+    formatCrawlJob: job => formatCrawlJob(db, job),
+    updateCrawlStatusMessage: (jobId, force) => updateCrawlStatusMessage(crawler, jobId, force),
+    resolveCrawlChannels: (guildId, channelIds, includeThreads) => resolveCrawlChannels(client, guildId, channelIds, includeThreads),
+    runCrawlQueue: () => runCrawlQueue(crawler),
+    refreshAfkTimers: guild => refreshAfkTimers(voiceTracker, guild),
+};
 
 // スラッシュコマンドの処理
 client.on('interactionCreate', async (interaction) => {
     console.log('Interaction received:', interaction.type, interaction.user.tag);
-    
+
+    if (interaction.isAutocomplete()) {
+        await dispatchAutocomplete(commands, interaction, commandContext);
+        return;
+    }
+
     if (!interaction.isChatInputCommand()) {
         console.log('Not a chat input command');
         return;
     }
 
-    const { commandName } = interaction;
-    console.log('Slash command received:', commandName);
-
-    try {
-        switch (commandName) {
-            case 'crawling':
-                await handleCrawlingCommand(interaction);
-                break;
-            case 'generate':
-                await handleGenerateCommand(interaction);
-                break;
-            case 'autoresponse':
-                await handleAutoResponseCommand(interaction);
-                break;
-            default:
-                await interaction.reply({ content: '不明なコマンドです。', ephemeral: true });
-        }
-    } catch (error) {
-        console.error('Error handling slash command:', error);
-        
-        const errorMessage = 'コマンドの実行中にエラーが発生しました。';
-        
-        if (interaction.replied || interaction.deferred) {
-            await interaction.editReply(errorMessage);
-        } else {
-            await interaction.reply({ content: errorMessage, ephemeral: true });
-        }
-    }
+    await dispatchCommand(commands, interaction, commandContext);
 });
 
 // 既存のメッセージコマンドも保持（下位互換性のため）+ 自動応答機能
 client.on('messageCreate', async (message: Message) => {
     const { channel } = message;
+
+    // ボット自身の発言時刻を記録（発言直後の応答抑制に使う）
+    if (message.author.id === client.user?.id) {
+        botLastSpokeAt.set(message.channelId, Date.now());
+    }
+
     if (message.author.bot || !channel.isTextBased()) {
         return;
     }
 
-    // 下位互換性のため、従来のコマンドも残す
-    if (message.content === '!crawling') {
-        await message.reply('このコマンドはスラッシュコマンドに移行しました。`/crawling` を使用してください。');
-        return;
-    } else if (message.content === '!generate') {
-        await message.reply('このコマンドはスラッシュコマンドに移行しました。`/generate` を使用してください。');
-        return;
-    } else if (message.content === '!stats') {
-        await message.reply('このコマンドはスラッシュコマンドに移行しました。`/stats` を使用してください。');
+    // 下位互換性のため、従来の ! コマンドには対応するスラッシュコマンドを案内する
+    const legacyCommand = message.content.startsWith('!') ? commands.get(message.content.slice(1)) : undefined;
+    if (legacyCommand) {
+        await message.reply(`このコマンドはスラッシュコマンドに移行しました。\`/${legacyCommand.data.name}\` を使用してください。`);
         return;
     }
 
+    // リアルタイム学習（有効なチャンネルのみ）
+    if (learningChannels.has(message.channelId)) {
+        learnLiveMessage(message);
+    }
+
     // 自動応答機能（設定に応じて反応）
-    if (autoResponseMode !== 'disabled' && message.content.length > 5) {
+    const settings = message.guildId ? getGuildSettings(message.guildId) : null;
+    if (message.guildId && settings && settings.autoResponseMode !== 'disabled' && message.content.length > 5 && canAutoRespondIn(settings, message.channelId)) {
+        const guildId = message.guildId;
         const isMentioned = message.mentions.has(client.user!);
-        const shouldRespond = isMentioned || (autoResponseMode === 'random' && Math.random() < 0.5);
+        const shouldRespond = isMentioned || (settings.autoResponseMode === 'random' && Math.random() < settings.responseProbability);
         
-        if (shouldRespond) {
+        if (shouldRespond && checkRateLimit(settings, guildId, message.channelId, message.author.id).allowed) {
+            recordReply(guildId, message.channelId, message.author.id);
+            // 遅延中に次の応答が重ならないよう、送信が終わるまでチャンネルを予約する
+            pendingReplyChannels.add(message.channelId);
+
             try {
                 // タイピング表示を開始
                 if("sendTyping" in channel){
@@ -526,28 +463,77 @@ client.on('messageCreate', async (message: Message) => {
                 
                 // 少し待機（自然な感じにするため）
                 setTimeout(async () => {
-                    const response = await generateResponseFromMessage(message.content);
-                    
-                    // メンションされた場合は返信、そうでなければ通常のメッセージ
-                    if (isMentioned) {
-                        await message.reply(response);
-                    } else {
-                        if("send" in message.channel) {
-                            await message.channel.send(response);
+                    try {
+                        const trace: ChainStep[] = [];
+                        const response = await generateWithBlocklist(guildId, () => generateResponse(message.content, { guildId }, 50, undefined, { trace }), trace);
+                        
+                        // メンションされた場合は返信、そうでなければ通常のメッセージ
+                        let sent: Message | undefined;
+                        if (isMentioned) {
+                            sent = await message.reply(response);
+                        } else {
+                            if("send" in message.channel) {
+                                sent = await message.channel.send(response);
+                            }
+                        }
+                        autoResponsesSent.inc();
+
+                        // リアクションで評価できるよう、たどった遷移を記録する
+                        if (sent) {
+                            recordGeneratedMessage(db, { id: sent.id, guildId, channelId: sent.channelId }, response, 'auto_response', trace);
                         }
+                    } catch (error) {
+                        console.error('Error in auto-response:', error);
+                    } finally {
+                        pendingReplyChannels.delete(message.channelId);
                     }
                 }, Math.random() * 2000 + 1000); // 1-3秒のランダムな遅延
                 
             } catch (error) {
+                pendingReplyChannels.delete(message.channelId);
                 console.error('Error in auto-response:', error);
             }
         }
     }
 });
 
+// 削除されたメッセージから学習したデータも取り除く
+client.on('messageDelete', (message) => {
+    try {
+        const result = forgetSources(db, 'message_id', message.id);
+        if (result.removedTransitions > 0) {
+            console.log(`Message ${message.id} deleted: removed ${result.removedTransitions} transitions.`);
+        }
+    } catch (error) {
+        console.error('Error forgetting deleted message:', error);
+    }
+});
+
+client.on('messageDeleteBulk', (messages) => {
+    for (const messageId of messages.keys()) {
+        try {
+            forgetSources(db, 'message_id', messageId);
+        } catch (error) {
+            console.error('Error forgetting deleted message:', error);
+        }
+    }
+});
+
+// 生成した文章へのリアクションによる評価
+const feedbackTracker: FeedbackTracker = { db, adminUserId: ADMIN_USER_ID, getGuildSettings };
+
+client.on('messageReactionAdd', (reaction, user) => {
+    handleFeedbackReaction(feedbackTracker, reaction, user, true).catch(error => console.error('Error handling reaction:', error));
+});
+
+client.on('messageReactionRemove', (reaction, user) => {
+    handleFeedbackReaction(feedbackTracker, reaction, user, false).catch(error => console.error('Error handling reaction:', error));
+});
+
 // グレースフルシャットダウン
 process.on('SIGINT', () => {
     console.log('Received SIGINT. Closing database and shutting down...');
+    db.prepare('UPDATE voice_sessions SET ended_at = ? WHERE ended_at IS NULL').run(Date.now());
     db.close();
     client.destroy();
     process.exit(0);
@@ -555,9 +541,14 @@ process.on('SIGINT', () => {
 
 process.on('SIGTERM', () => {
     console.log('Received SIGTERM. Closing database and shutting down...');
+    db.prepare('UPDATE voice_sessions SET ended_at = ? WHERE ended_at IS NULL').run(Date.now());
     db.close();
     client.destroy();
     process.exit(0);
 });
 
+if (HTTP_PORT) {
+    startHttpServer({ client, db, getTokenizerState: () => tokenizerState }, Number(HTTP_PORT), HTTP_HOST);
+}
+
 client.login(DISCORD_BOT_TOKEN);
\ No newline at end of file
@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import { ChainSource, Learner, learnText } from './learning';
+
+// オフラインで取り込む際の設定
+export interface IngestOptions {
+    guildId: string;
+    authorId: string | null; // 投稿者（データパッケージの場合は省略時に account/user.json から取得）
+    channelId: string; // テキストファイルの取り込み先チャンネル（'' の場合はサーバー全体）
+    allChannels: boolean; // 他のサーバーや DM のメッセージもサーバー全体の遷移として取り込む
+}
+
+export interface IngestResult {
+    files: number;
+    messages: number;
+    skippedChannels: number;
+    transitions: number;
+}
+
+interface PackageMessage {
+    id: string;
+    content: string;
+}
+
+// データパッケージの messages.json の 1 件（ID は数値で書かれている場合がある）
+interface PackageMessageRow {
+    ID: string | number;
+    Contents: string;
+}
+
+// データパッケージの channel.json（DM やグループ DM には guild がない）
+interface PackageChannel {
+    id: string;
+    guildId: string | null;
+}
+
+// RFC 4180 形式の CSV を行ごとのフィールドに分割する（引用符内の改行・"" に対応）
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+function readText(file: string): string {
+    return fs.readFileSync(file, 'utf8').replace(/^\uFEFF/, '');
+}
+
+function readJsonIfExists(file: string): unknown {
+    return fs.existsSync(file) ? JSON.parse(readText(file)) : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function parseId(value: unknown): string | null {
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+function isPackageMessageRow(value: unknown): value is PackageMessageRow {
+    return isObject(value) && parseId(value.ID) !== null && typeof value.Contents === 'string';
+}
+
+function readPackageChannel(file: string): PackageChannel | null {
+    const channel = readJsonIfExists(file);
+    const id = isObject(channel) ? parseId(channel.id) : null;
+    if (!isObject(channel) || !id) return null;
+    return { id, guildId: isObject(channel.guild) ? parseId(channel.guild.id) : null };
+}
+
+// データパッケージの messages.json / messages.csv を読み込む
+function readPackageMessages(file: string): PackageMessage[] {
+    if (file.endsWith('.csv')) {
+        const [header, ...rows] = parseCsv(readText(file));
+        const idColumn = header?.indexOf('ID') ?? -1;
+        const contentColumn = header?.indexOf('Contents') ?? -1;
+        if (idColumn < 0 || contentColumn < 0) {
+            throw new Error(`${file} does not have ID and Contents columns.`);
+        }
+        return rows.map(row => ({ id: row[idColumn] ?? '', content: row[contentColumn] ?? '' }));
+    }
+
+    // ID が数値で書かれている場合があるので、精度が落ちないよう文字列として読む（形式の異なる要素は読み飛ばす）
+    const messages: unknown = JSON.parse(readText(file).replace(/"ID":\s*(\d+)/g, '"ID":"$1"'));
+    if (!Array.isArray(messages)) {
+        throw new Error(`${file} is not a list of messages.`);
+    }
+    return messages.filter(isPackageMessageRow).map(message => ({ id: String(message.ID), content: message.Contents }));
+}
+
+// 取り込むファイルを列挙する（ディレクトリは再帰的にたどる）
+function collectFiles(target: string): string[] {
+    if (!fs.statSync(target).isDirectory()) {
+        return [target];
+    }
+    return fs.readdirSync(target).sort().flatMap(name => collectFiles(path.join(target, name)));
+}
+
+function isPackageMessageFile(file: string): boolean {
+    const name = path.basename(file);
+    return name === 'messages.json' || name === 'messages.csv';
+}
+
+// データパッケージのメッセージファイルを学習する
+// 取り込み先のサーバーのチャンネルはそのまま、それ以外は allChannels の場合のみサーバー全体として学習する
+function ingestPackageFile(learner: Learner, file: string, options: IngestOptions, result: IngestResult) {
+    const channel = readPackageChannel(path.join(path.dirname(file), 'channel.json'));
+
+    let channelId: string;
+    if (channel && channel.guildId === options.guildId) {
+        channelId = channel.id;
+    } else if (options.allChannels) {
+        channelId = '';
+    } else {
+        result.skippedChannels++;
+        return;
+    }
+
+    const messages = readPackageMessages(file).filter(message => message.content.trim());
+    let transitions = 0;
+    learner.db.transaction(() => {
+        for (const message of messages) {
+            const source: ChainSource | null = options.authorId && message.id ? { messageId: message.id, authorId: options.authorId } : null;
+            transitions += learnText(learner, options.guildId, channelId, message.content, source);
+        }
+    })();
+
+    result.files++;
+    result.messages += messages.length;
+    result.transitions += transitions;
+    console.log(`Ingested ${messages.length} messages (${transitions} transitions) from ${file}.`);
+}
+
+// テキストファイルを 1 行を 1 メッセージとして学習する
+function ingestTextFile(learner: Learner, file: string, options: IngestOptions, result: IngestResult) {
+    const lines = readText(file).split(/\r?\n/);
+    let learnedLines = 0;
+    let transitions = 0;
+    learner.db.transaction(() => {
+        lines.forEach((line, index) => {
+            if (!line.trim()) return;
+            const source: ChainSource | null = options.authorId ? { messageId: `${path.basename(file)}:${index + 1}`, authorId: options.authorId } : null;
+            transitions += learnText(learner, options.guildId, options.channelId, line, source);
+            learnedLines++;
+        });
+    })();
+
+    result.files++;
+    result.messages += learnedLines;
+    result.transitions += transitions;
+    console.log(`Ingested ${learnedLines} lines (${transitions} transitions) from ${file}.`);
+}
+
+// Discord のデータパッケージ（またはその一部）やテキストファイルを学習する
+export function ingestPath(learner: Learner, target: string, options: IngestOptions): IngestResult {
+    const result: IngestResult = { files: 0, messages: 0, skippedChannels: 0, transitions: 0 };
+
+    // データパッケージのルートが指定された場合は、パッケージの持ち主を投稿者とする
+    const account = fs.statSync(target).isDirectory() ? readJsonIfExists(path.join(target, 'account', 'user.json')) : null;
+    const packageOptions = { ...options, authorId: options.authorId ?? (isObject(account) ? parseId(account.id) : null) };
+
+    for (const file of collectFiles(target)) {
+        if (isPackageMessageFile(file)) {
+            ingestPackageFile(learner, file, packageOptions, result);
+        } else if (file.endsWith('.txt')) {
+            ingestTextFile(learner, file, options, result);
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,199 @@
+import Database from 'better-sqlite3';
+import kuromoji from 'kuromoji';
+import { MAX_CHAIN_ORDER, prefixKey } from './corpus';
+
+export type Tokenizer = kuromoji.Tokenizer<kuromoji.IpadicFeatures>;
+
+// Kuromoji の Tokenizer を作成する
+export function buildTokenizer(): Promise<Tokenizer> {
+    return new Promise((resolve, reject) => {
+        kuromoji.builder({ dicPath: 'node_modules/kuromoji/dict' }).build((err, tokenizer) => {
+            if (err) {
+                reject(err);
+            } else {
+                resolve(tokenizer);
+            }
+        });
+    });
+}
+
+// 文の開始・終了を表す境界トークン（連鎖の中だけで使い、出力には含めない）
+export const BOS_TOKEN = '<BOS>';
+export const EOS_TOKEN = '<EOS>';
+
+// 文末とみなすトークン
+const SENTENCE_TERMINATOR = /^[。．！？!?]+$/;
+
+// テキストを文ごとに分割し、単語列にする
+export function tokenizeSentences(tokenizer: Tokenizer, text: string): string[][] {
+    const sentences: string[][] = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+
+        let current: string[] = [];
+        for (const token of tokenizer.tokenize(line)) {
+            current.push(token.surface_form);
+            if (SENTENCE_TERMINATOR.test(token.surface_form)) {
+                sentences.push(current);
+                current = [];
+            }
+        }
+        if (current.length > 0) {
+            sentences.push(current);
+        }
+    }
+
+    return sentences;
+}
+
+// order 次の連鎖を学習できるよう、文の前後に境界トークンを付ける
+function padSentence(words: string[], order: number): string[] {
+    return [...Array(order).fill(BOS_TOKEN), ...words, EOS_TOKEN];
+}
+
+// 正規化の対象と処理方法（strip: 削除、placeholder: 代替文字列に置換、keep: そのまま）
+export type NormalizeMode = 'strip' | 'placeholder' | 'keep';
+
+export interface ContentFilter {
+    mentions: NormalizeMode;
+    urls: NormalizeMode;
+    codeBlocks: NormalizeMode;
+    emojis: NormalizeMode;
+}
+
+export const DEFAULT_CONTENT_FILTER: ContentFilter = {
+    mentions: 'placeholder',
+    urls: 'strip',
+    codeBlocks: 'strip',
+    emojis: 'placeholder',
+};
+
+// content_filters の行（/filter normalize で保存する）
+interface ContentFilterRow {
+    mentions: NormalizeMode;
+    urls: NormalizeMode;
+    code_blocks: NormalizeMode;
+    emojis: NormalizeMode;
+}
+
+export function getContentFilter(db: Database.Database, guildId: string): ContentFilter {
+    const row = db.prepare('SELECT mentions, urls, code_blocks, emojis FROM content_filters WHERE guild_id = ?').get(guildId) as ContentFilterRow | undefined;
+    if (!row) {
+        return DEFAULT_CONTENT_FILTER;
+    }
+    return { mentions: row.mentions, urls: row.urls, codeBlocks: row.code_blocks, emojis: row.emojis };
+}
+
+// mode に応じて pattern に一致する部分を削除または置換する
+function applyNormalizeRule(text: string, mode: NormalizeMode, pattern: RegExp, placeholder: string): string {
+    if (mode === 'keep') {
+        return text;
+    }
+    return text.replace(pattern, mode === 'placeholder' ? placeholder : ' ');
+}
+
+// トークン化の前に Discord 固有の記法を取り除く
+export function normalizeContent(text: string, filter: ContentFilter): string {
+    let normalized = text;
+
+    normalized = applyNormalizeRule(normalized, filter.codeBlocks, /```[\s\S]*?```/g, 'コード');
+    normalized = applyNormalizeRule(normalized, filter.codeBlocks, /`[^`\n]+`/g, 'コード');
+    normalized = applyNormalizeRule(normalized, filter.urls, /https?:\/\/\S+/gi, 'URL');
+    normalized = applyNormalizeRule(normalized, filter.urls, /(?:discord\.gg|discord(?:app)?\.com\/invite)\/\S+/gi, 'URL');
+    normalized = applyNormalizeRule(normalized, filter.mentions, /<@[!&]?\d+>/g, '@someone');
+    normalized = applyNormalizeRule(normalized, filter.mentions, /<#\d+>/g, '#channel');
+    normalized = applyNormalizeRule(normalized, filter.mentions, /@(everyone|here)/g, '$1');
+    normalized = applyNormalizeRule(normalized, filter.emojis, /<a?:(\w+):\d+>/g, ':$1:');
+
+    return normalized.replace(/[ \t]{2,}/g, ' ').trim();
+}
+
+// 学習に使うステートメント（データベースごとに一度だけ準備する）
+const learningStatements = new WeakMap<Database.Database, {
+    insertChain: Database.Statement;
+    insertSource: Database.Statement;
+    deleteEmptyChain: Database.Statement;
+}>();
+
+function getLearningStatements(db: Database.Database) {
+    let statements = learningStatements.get(db);
+    if (!statements) {
+        statements = {
+            insertChain: db.prepare(`
+                INSERT INTO markov_chain (guild_id, channel_id, direction, chain_order, prefix, suffix, count) VALUES (?, ?, ?, ?, ?, ?, 1)
+                ON CONFLICT (guild_id, channel_id, direction, chain_order, prefix, suffix) DO UPDATE SET count = count + 1
+                RETURNING id
+            `),
+            insertSource: db.prepare('INSERT INTO chain_sources (chain_id, message_id, author_id) VALUES (?, ?, ?)'),
+            deleteEmptyChain: db.prepare('DELETE FROM markov_chain WHERE id = ? AND count <= 0'),
+        };
+        learningStatements.set(db, statements);
+    }
+    return statements;
+}
+
+// 学習先のデータベースと、学習に使うトークナイザー・学習を拒否したユーザー
+export interface Learner {
+    db: Database.Database;
+    tokenizer: Tokenizer;
+    optedOutUsers: ReadonlySet<string>;
+}
+
+// 遷移の出典となるメッセージ
+export interface ChainSource {
+    messageId: string;
+    authorId: string;
+}
+
+// メッセージを 1〜MAX_CHAIN_ORDER 次のすべての連鎖として順方向・逆方向に学習し、記録した遷移（単語の位置）の数を返す
+// （学習を拒否したユーザーのメッセージは無視。出典が null の場合は出典を記録しない）
+export function learnText(learner: Learner, guildId: string, channelId: string, text: string, source: ChainSource | null): number {
+    if (source && learner.optedOutUsers.has(source.authorId)) {
+        return 0;
+    }
+
+    const { insertChain, insertSource } = getLearningStatements(learner.db);
+    let insertedChains = 0;
+
+    for (const sentence of tokenizeSentences(learner.tokenizer, normalizeContent(text, getContentFilter(learner.db, guildId)))) {
+        for (let order = 1; order <= MAX_CHAIN_ORDER; order++) {
+            const words = padSentence(sentence, order);
+            for (let i = 0; i + order < words.length; i++) {
+                // 逆方向の連鎖は、後ろの単語列（近い順）から直前の単語を予測する
+                const rows = [
+                    insertChain.get(guildId, channelId, 'forward', order, prefixKey(words.slice(i, i + order)), words[i + order]),
+                    insertChain.get(guildId, channelId, 'backward', order, prefixKey(words.slice(i + 1, i + order + 1).reverse()), words[i]),
+                ] as { id: number }[];
+                for (const row of source ? rows : []) {
+                    insertSource.run(row.id, source!.messageId, source!.authorId);
+                }
+            }
+        }
+        insertedChains += sentence.length + 1;
+    }
+
+    return insertedChains;
+}
+
+// 出典の条件に一致する遷移を取り除く（他のメッセージ由来の出現回数が残る連鎖は削除しない）
+// guildId を指定した場合はそのギルドのコーパスの遷移だけを取り除く（本人の forget とメッセージの削除はすべてのギルドが対象）
+export function forgetSources(db: Database.Database, column: 'author_id' | 'message_id', value: string, guildId?: string): { removedTransitions: number; deletedChains: number } {
+    const sourceCondition = guildId
+        ? `chain_sources.${column} = ? AND EXISTS (SELECT 1 FROM markov_chain c WHERE c.id = chain_sources.chain_id AND c.guild_id = ?)`
+        : `chain_sources.${column} = ?`;
+    const params = guildId ? [value, guildId] : [value];
+    const { deleteEmptyChain } = getLearningStatements(db);
+    return db.transaction(() => {
+        // 出現回数が 0 になりうるのは出典を取り除いた遷移だけなので、それ以外の行は調べない
+        const chainIds = db.prepare(`SELECT DISTINCT chain_id FROM chain_sources WHERE ${sourceCondition}`).pluck().all(...params) as number[];
+        db.prepare(`
+            UPDATE markov_chain
+            SET count = count - (SELECT COUNT(*) FROM chain_sources WHERE chain_id = markov_chain.id AND ${sourceCondition})
+            WHERE id IN (SELECT chain_id FROM chain_sources WHERE ${sourceCondition})
+        `).run(...params, ...params);
+        const removedTransitions = db.prepare(`DELETE FROM chain_sources WHERE ${sourceCondition}`).run(...params).changes;
+        const deletedChains = chainIds.reduce((sum, chainId) => sum + deleteEmptyChain.run(chainId).changes, 0);
+        return { removedTransitions, deletedChains };
+    })();
+}
@@ -0,0 +1,118 @@
+// Prometheus のテキスト形式で出力するメトリクス（/metrics で公開する）
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    name: string;
+    help: string;
+    type: 'counter' | 'gauge' | 'histogram';
+    render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function register<T extends Metric>(metric: T): T {
+    if (registry.some(registered => registered.name === metric.name)) {
+        throw new Error(`Duplicate metric name: ${metric.name}`);
+    }
+    registry.push(metric);
+    return metric;
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}` : '';
+}
+
+// ラベルの組み合わせごとの値を、ラベルを連結したキーで保持する
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export interface Counter {
+    inc(labels?: Labels, value?: number): void;
+}
+
+export function createCounter(name: string, help: string): Counter {
+    const values = new Map<string, { labels: Labels; value: number }>();
+    register<Metric>({
+        name,
+        help,
+        type: 'counter',
+        render: () => Array.from(values.values(), entry => `${name}${formatLabels(entry.labels)} ${entry.value}`),
+    });
+    return {
+        inc(labels = {}, value = 1) {
+            const key = labelKey(labels);
+            const entry = values.get(key) ?? { labels, value: 0 };
+            entry.value += value;
+            values.set(key, entry);
+        },
+    };
+}
+
+// 値を出力のたびに collect で取得するゲージ
+export function createGauge(name: string, help: string, collect: () => { labels?: Labels; value: number }[]) {
+    register<Metric>({
+        name,
+        help,
+        type: 'gauge',
+        render: () => collect().map(sample => `${name}${formatLabels(sample.labels ?? {})} ${sample.value}`),
+    });
+}
+
+export interface Histogram {
+    observe(labels: Labels, value: number): void;
+}
+
+// 秒単位の処理時間向けの既定のバケット
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export function createHistogram(name: string, help: string, buckets = DEFAULT_BUCKETS): Histogram {
+    const values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+    register<Metric>({
+        name,
+        help,
+        type: 'histogram',
+        render: () => Array.from(values.values()).flatMap(entry => [
+            ...buckets.map((bucket, i) => `${name}_bucket${formatLabels({ ...entry.labels, le: String(bucket) })} ${entry.counts[i]}`),
+            `${name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`,
+            `${name}_sum${formatLabels(entry.labels)} ${entry.sum}`,
+            `${name}_count${formatLabels(entry.labels)} ${entry.count}`,
+        ]),
+    });
+    return {
+        observe(labels, value) {
+            const key = labelKey(labels);
+            const entry = values.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+            buckets.forEach((bucket, i) => {
+                if (value <= bucket) entry.counts[i]++;
+            });
+            entry.sum += value;
+            entry.count++;
+            values.set(key, entry);
+        },
+    };
+}
+
+// 登録済みのすべてのメトリクスを出力する
+export function renderMetrics(): string {
+    const lines = registry.flatMap(metric => [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.render(),
+    ]);
+    return lines.join('\n') + '\n';
+}
+
+// ボットのメトリクス
+export const commandsHandled = createCounter('markov_bot_commands_total', 'Slash commands handled, by command and result (success, denied, error, unknown).');
+export const autoResponsesSent = createCounter('markov_bot_auto_responses_total', 'Auto-responses sent.');
+export const transitionsInserted = createCounter('markov_bot_transitions_inserted_total', 'Markov transitions learned, by source (crawl, live).');
+export const crawledMessages = createCounter('markov_bot_crawled_messages_total', 'Messages fetched by crawl jobs.');
+export const afkMoves = createCounter('markov_bot_afk_moves_total', 'Members moved to the AFK channel.');
+export const generationDuration = createHistogram('markov_bot_generation_duration_seconds', 'Time taken to generate a sentence, by type (sentence, response).');
@@ -0,0 +1,76 @@
+import Database from 'better-sqlite3';
+import { ChatInputCommandInteraction, GuildMember, PermissionFlagsBits, PermissionsBitField } from 'discord.js';
+
+// 管理系コマンドの権限（Discord の権限を持つメンバー、またはギルドで設定したロールのメンバーが実行できる）
+export type PermissionKey = 'crawling' | 'autoresponse' | 'config' | 'afk' | 'corpus' | 'data_deletion' | 'permissions';
+
+export const PERMISSION_RULES: Record<PermissionKey, { label: string; defaultPermission: bigint }> = {
+    crawling: { label: 'クロール・学習', defaultPermission: PermissionFlagsBits.ManageGuild },
+    autoresponse: { label: '自動応答', defaultPermission: PermissionFlagsBits.ManageGuild },
+    config: { label: '設定・フィルター', defaultPermission: PermissionFlagsBits.ManageGuild },
+    afk: { label: 'AFK 管理', defaultPermission: PermissionFlagsBits.MoveMembers },
+    corpus: { label: 'コーパスの入出力', defaultPermission: PermissionFlagsBits.ManageGuild },
+    data_deletion: { label: 'データ削除', defaultPermission: PermissionFlagsBits.ManageMessages },
+    permissions: { label: '権限設定', defaultPermission: PermissionFlagsBits.ManageGuild },
+};
+
+// ロールに付与できる権限（権限設定そのものは Discord の権限を持つメンバーに限る）
+export const GRANTABLE_PERMISSION_CHOICES = (Object.keys(PERMISSION_RULES) as PermissionKey[])
+    .filter(key => key !== 'permissions')
+    .map(key => ({ name: PERMISSION_RULES[key].label, value: key }));
+
+// コマンドに必要な権限（サブコマンドごとに指定する場合はサブコマンド名をキーにする）。記載のないものは誰でも実行できる
+export type CommandPermissions = PermissionKey | Record<string, PermissionKey>;
+
+export function getPermissionKey(permissions: CommandPermissions | undefined, interaction: ChatInputCommandInteraction): PermissionKey | null {
+    if (!permissions || typeof permissions === 'string') {
+        return permissions ?? null;
+    }
+    const subcommand = interaction.options.getSubcommand(false);
+    return subcommand ? permissions[subcommand] ?? null : null;
+}
+
+// Discord の権限、またはロールへの付与で権限を持つか（adminUserId のユーザーはすべての権限を持つ）
+function hasPermission(
+    db: Database.Database,
+    guildId: string,
+    userId: string,
+    memberPermissions: Readonly<PermissionsBitField>,
+    memberRoleIds: string[],
+    key: PermissionKey,
+    adminUserId: string | undefined
+): boolean {
+    if (adminUserId && userId === adminUserId) {
+        return true;
+    }
+    if (memberPermissions.has(PERMISSION_RULES[key].defaultPermission)) {
+        return true;
+    }
+    if (key === 'permissions') {
+        return false;
+    }
+
+    const allowedRoleIds = (db.prepare('SELECT role_id FROM command_permissions WHERE guild_id = ? AND permission_key = ?')
+        .all(guildId, key) as { role_id: string }[])
+        .map(row => row.role_id);
+    return allowedRoleIds.some(roleId => memberRoleIds.includes(roleId));
+}
+
+// adminUserId のユーザーはすべてのコマンドを実行できる
+export function hasCommandPermission(db: Database.Database, interaction: ChatInputCommandInteraction, key: PermissionKey, adminUserId: string | undefined): boolean {
+    if (adminUserId && interaction.user.id === adminUserId) {
+        return true;
+    }
+    if (!interaction.inGuild()) {
+        return false;
+    }
+
+    const { roles } = interaction.member;
+    const memberRoleIds = Array.isArray(roles) ? roles : Array.from(roles.cache.keys());
+    return hasPermission(db, interaction.guildId, interaction.user.id, interaction.memberPermissions, memberRoleIds, key, adminUserId);
+}
+
+// コマンド以外の操作（リアクションなど）をしたメンバーの権限を確認する
+export function hasMemberPermission(db: Database.Database, member: GuildMember, key: PermissionKey, adminUserId: string | undefined): boolean {
+    return hasPermission(db, member.guild.id, member.id, member.permissions, Array.from(member.roles.cache.keys()), key, adminUserId);
+}
@@ -0,0 +1,21 @@
+// 0 以上 1 未満の乱数を返す関数（Math.random の代わりにシード付きの乱数を渡すと結果を再現できる）
+export type Random = () => number;
+
+// シードから常に同じ乱数列を返す（mulberry32）
+export function createSeededRandom(seed: number): Random {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// シードに使える値の上限（32 ビット）
+export const MAX_SEED = 0xffffffff;
+
+export function createRandomSeed(): number {
+    return Math.floor(Math.random() * (MAX_SEED + 1));
+}
@@ -0,0 +1,66 @@
+import { GuildSettings } from './types';
+
+// 自動応答・/generate のレート制限の状態（再起動するとリセットされる）
+export const channelLastReplyAt = new Map<string, number>();
+export const userLastReplyAt = new Map<string, number>(); // キーは `${guildId}:${userId}`
+const guildReplyTimes = new Map<string, number[]>(); // 直近 1 分間の応答時刻
+export const botLastSpokeAt = new Map<string, number>(); // チャンネルごとのボットの最終発言時刻
+export const pendingReplyChannels = new Set<string>(); // 応答を送信待ちのチャンネル
+export const lastSuppression = new Map<string, { reason: string; at: number }>(); // チャンネルごとの直近の抑制理由
+
+export type RateLimitResult = { allowed: true } | { allowed: false; reason: string };
+
+// 最後の時刻からクールダウンが明けるまでの残り秒数
+export function cooldownRemaining(lastAt: number | undefined, cooldownSeconds: number, now: number): number {
+    if (lastAt === undefined) return 0;
+    return Math.max(0, Math.ceil((lastAt + cooldownSeconds * 1000 - now) / 1000));
+}
+
+export function recentGuildReplies(guildId: string, now: number): number[] {
+    const recent = (guildReplyTimes.get(guildId) ?? []).filter(time => now - time < 60 * 1000);
+    guildReplyTimes.set(guildId, recent);
+    return recent;
+}
+
+// 応答してよいか判定し、抑制した場合は理由を記録する
+export function checkRateLimit(settings: GuildSettings, guildId: string, channelId: string, userId: string): RateLimitResult {
+    const now = Date.now();
+    let reason: string | null = null;
+
+    const channelWait = cooldownRemaining(channelLastReplyAt.get(channelId), settings.responseCooldownSeconds, now);
+    const userWait = cooldownRemaining(userLastReplyAt.get(`${guildId}:${userId}`), settings.userCooldownSeconds, now);
+    const botWait = cooldownRemaining(botLastSpokeAt.get(channelId), settings.botSilenceSeconds, now);
+
+    if (pendingReplyChannels.has(channelId)) {
+        reason = 'このチャンネルで応答を送信中です';
+    } else if (channelWait > 0) {
+        reason = `チャンネルのクールダウン中です（残り${channelWait}秒）`;
+    } else if (userWait > 0) {
+        reason = `ユーザーのクールダウン中です（残り${userWait}秒）`;
+    } else if (botWait > 0) {
+        reason = `ボットが発言した直後です（残り${botWait}秒）`;
+    } else if (settings.maxRepliesPerMinute > 0 && recentGuildReplies(guildId, now).length >= settings.maxRepliesPerMinute) {
+        reason = `サーバーの応答上限（1分あたり${settings.maxRepliesPerMinute}回）に達しています`;
+    }
+
+    if (reason) {
+        lastSuppression.set(channelId, { reason, at: now });
+        return { allowed: false, reason };
+    }
+    return { allowed: true };
+}
+
+// 応答したことを記録する
+export function recordReply(guildId: string, channelId: string, userId: string) {
+    const now = Date.now();
+    channelLastReplyAt.set(channelId, now);
+    userLastReplyAt.set(`${guildId}:${userId}`, now);
+    guildReplyTimes.set(guildId, [...recentGuildReplies(guildId, now), now]);
+}
+
+// チャンネルの許可・除外リストから自動応答してよいか判定する
+export function canAutoRespondIn(settings: GuildSettings, channelId: string): boolean {
+    if (settings.ignoredChannels.includes(channelId)) return false;
+    if (settings.allowedChannels.length > 0 && !settings.allowedChannels.includes(channelId)) return false;
+    return true;
+}
@@ -0,0 +1,69 @@
+// ボット本体とコマンドモジュールで共有する型
+
+export type AutoResponseMode = 'mention_only' | 'random' | 'disabled';
+
+// AFK になる前の警告の送り先（channel: ボイスチャンネルのチャット）
+export type AfkWarningMode = 'dm' | 'channel' | 'none';
+
+// ギルドごとの設定
+export interface GuildSettings {
+    autoResponseMode: AutoResponseMode;
+    responseProbability: number;
+    allowedChannels: string[]; // 空の場合はすべてのチャンネルで自動応答する
+    ignoredChannels: string[];
+    responseCooldownSeconds: number; // チャンネルごとのクールダウン
+    userCooldownSeconds: number;
+    maxRepliesPerMinute: number; // 0 の場合は無制限
+    botSilenceSeconds: number; // ボットが発言してからこの秒数は応答しない
+    chainOrder: number; // 生成に使う文脈の長さ（1〜MAX_CHAIN_ORDER）
+    afkChannelId: string | null;
+    muteTimeoutMinutes: number; // AFK とみなしてから移動するまでの時間
+    afkCountMute: boolean; // ミュートを AFK とみなすか
+    afkCountDeafen: boolean; // スピーカーミュートを AFK とみなすか
+    afkCountAlone: boolean; // チャンネルに 1 人だけの状態を AFK とみなすか
+    afkWarningMinutes: number; // 移動の何分前に警告するか
+    afkWarningMode: AfkWarningMode;
+    afkLogChannelId: string | null;
+    afkExemptRoles: string[];
+    afkExemptChannels: string[];
+    crawlChannels: string[];
+    feedbackUpEmoji: string; // 評価に使うリアクション（Unicode の絵文字、またはカスタム絵文字の ID）
+    feedbackDownEmoji: string;
+    feedbackBlacklistEmoji: string; // 権限を持つメンバーが付けると、その文章を二度と生成しない
+}
+
+// クロールジョブ（crawl_jobs・crawl_job_channels の行）
+export type CrawlJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+// newer: 前回のクロール以降のメッセージを取得中、older: それより古いメッセージを取得中、done: 完了
+export type CrawlPhase = 'newer' | 'older' | 'done';
+
+export interface CrawlJobRow {
+    id: number;
+    guild_id: string;
+    requested_by: string;
+    status: CrawlJobStatus;
+    message_limit: number;
+    processed_messages: number;
+    inserted_chains: number;
+    status_channel_id: string | null;
+    status_message_id: string | null;
+    error: string | null;
+    created_at: number;
+    updated_at: number;
+}
+
+export interface CrawlJobChannelRow {
+    job_id: number;
+    channel_id: string;
+    phase: CrawlPhase;
+    fetched_messages: number;
+}
+
+// AFK と判定されたメンバー（再起動後も判定を続けられるよう DB に保存）
+export interface AfkTimerRow {
+    guild_id: string;
+    user_id: string;
+    inactive_since: number;
+    warned_at: number | null;
+}
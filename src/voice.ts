@@ -0,0 +1,230 @@
+import Database from 'better-sqlite3';
+import { Client, Guild, VoiceState } from 'discord.js';
+import { afkMoves } from './metrics';
+import { AfkTimerRow, AfkWarningMode, GuildSettings } from './types';
+
+// AFK の判定と滞在記録に使うデータベース・クライアントとギルドの設定
+export interface VoiceTracker {
+    db: Database.Database;
+    client: Client;
+    getGuildSettings(guildId: string): GuildSettings;
+}
+
+export const AFK_CHECK_INTERVAL_MS = 60 * 1000;
+
+// 前回の判定が Discord API の応答待ちで長引いている間は、同じタイマーを重ねて処理しない（警告や移動を二重に行わない）
+let afkTimersProcessing = false;
+
+// メンバーが AFK とみなされる理由を返す（移動の対象外の場合は空）
+export function getAfkReasons(voiceState: VoiceState, settings: GuildSettings): string[] {
+    const { channel, member } = voiceState;
+    if (!channel || !member || member.user.bot) return [];
+    if (!settings.afkChannelId || channel.id === settings.afkChannelId) return [];
+    if (settings.afkExemptChannels.includes(channel.id)) return [];
+    if (member.roles.cache.some(role => settings.afkExemptRoles.includes(role.id))) return [];
+
+    const reasons: string[] = [];
+    if (settings.afkCountMute && (voiceState.selfMute || voiceState.serverMute)) reasons.push('ミュート');
+    if (settings.afkCountDeafen && (voiceState.selfDeaf || voiceState.serverDeaf)) reasons.push('スピーカーミュート');
+    if (settings.afkCountAlone && channel.members.filter(m => !m.user.bot).size <= 1) reasons.push('1人だけ');
+    return reasons;
+}
+
+function deleteAfkTimer(db: Database.Database, guildId: string, userId: string) {
+    db.prepare('DELETE FROM afk_timers WHERE guild_id = ? AND user_id = ?').run(guildId, userId);
+}
+
+// メンバーの状態に合わせて AFK タイマーを開始・解除する（AFK のままなら開始時刻は変えない）
+function updateAfkTimer(tracker: VoiceTracker, voiceState: VoiceState) {
+    if (voiceState.channelId && getAfkReasons(voiceState, tracker.getGuildSettings(voiceState.guild.id)).length > 0) {
+        tracker.db.prepare('INSERT OR IGNORE INTO afk_timers (guild_id, user_id, inactive_since) VALUES (?, ?, ?)')
+            .run(voiceState.guild.id, voiceState.id, Date.now());
+    } else {
+        deleteAfkTimer(tracker.db, voiceState.guild.id, voiceState.id);
+    }
+}
+
+// ギルドのボイスチャンネルにいる全員を判定し直す（設定の変更時）
+export function refreshAfkTimers(tracker: VoiceTracker, guild: Guild) {
+    guild.voiceStates.cache.forEach(voiceState => updateAfkTimer(tracker, voiceState));
+    const timers = tracker.db.prepare('SELECT user_id FROM afk_timers WHERE guild_id = ?').all(guild.id) as { user_id: string }[];
+    for (const timer of timers) {
+        if (!guild.voiceStates.cache.get(timer.user_id)?.channelId) {
+            deleteAfkTimer(tracker.db, guild.id, timer.user_id);
+        }
+    }
+}
+
+// 起動時に、保存されたタイマーを現在の状態と突き合わせる（参加していないギルドのタイマーは削除）
+export function reconcileAfkTimers(tracker: VoiceTracker) {
+    const { db, client } = tracker;
+    client.guilds.cache.forEach(guild => refreshAfkTimers(tracker, guild));
+    for (const timer of db.prepare('SELECT DISTINCT guild_id FROM afk_timers').all() as { guild_id: string }[]) {
+        if (!client.guilds.cache.has(timer.guild_id)) {
+            db.prepare('DELETE FROM afk_timers WHERE guild_id = ?').run(timer.guild_id);
+        }
+    }
+}
+
+// 移動する前にメンバーへ警告する
+async function sendAfkWarning(voiceState: VoiceState, minutesLeft: number, reasons: string[], mode: AfkWarningMode) {
+    const content = `⚠️ ${voiceState.guild.name} の <#${voiceState.channelId}> で${reasons.join('・')}の状態が続いているため、約${minutesLeft}分後に AFK チャンネルへ移動します。`;
+    try {
+        if (mode === 'dm') {
+            await voiceState.member?.send(content);
+        } else if (mode === 'channel' && voiceState.channel) {
+            await voiceState.channel.send({ content: `<@${voiceState.id}> ${content}`, allowedMentions: { users: [voiceState.id] } });
+        }
+    } catch (error) {
+        console.error(`Failed to send AFK warning to user ${voiceState.id}:`, error);
+    }
+}
+
+// AFK チャンネルへ移動し、ログチャンネルに記録する
+async function moveAfkMember(voiceState: VoiceState, settings: GuildSettings, reasons: string[]): Promise<boolean> {
+    const afkChannel = settings.afkChannelId ? voiceState.guild.channels.cache.get(settings.afkChannelId) : undefined;
+    if (!afkChannel || !afkChannel.isVoiceBased()) {
+        console.log(`AFK channel of guild ${voiceState.guild.id} was not found.`);
+        return false;
+    }
+
+    const fromChannelId = voiceState.channelId;
+    try {
+        await voiceState.setChannel(afkChannel, `AFK（${reasons.join('・')}）`);
+    } catch (error) {
+        console.error(`Failed to move user ${voiceState.id} to the AFK channel:`, error);
+        return false;
+    }
+    console.log(`Moved user ${voiceState.id} to the AFK channel in guild ${voiceState.guild.id}.`);
+    afkMoves.inc();
+
+    const logChannel = settings.afkLogChannelId ? voiceState.guild.channels.cache.get(settings.afkLogChannelId) : undefined;
+    if (logChannel && logChannel.isTextBased()) {
+        await logChannel.send(
+            `💤 <@${voiceState.id}> を <#${fromChannelId}> から <#${afkChannel.id}> へ移動しました（${reasons.join('・')}の状態が${settings.muteTimeoutMinutes}分続いたため）`
+        ).catch(error => console.error('Failed to write AFK log:', error));
+    }
+    return true;
+}
+
+// AFK タイマーを確認し、時間が来たメンバーへの警告と移動を行う
+export async function processAfkTimers(tracker: VoiceTracker, now = Date.now()) {
+    if (afkTimersProcessing) return;
+    afkTimersProcessing = true;
+    try {
+        await processAfkTimerRows(tracker, now);
+    } finally {
+        afkTimersProcessing = false;
+    }
+}
+
+async function processAfkTimerRows(tracker: VoiceTracker, now: number) {
+    const { db, client } = tracker;
+    for (const timer of db.prepare('SELECT * FROM afk_timers').all() as AfkTimerRow[]) {
+        const guild = client.guilds.cache.get(timer.guild_id);
+        const voiceState = guild?.voiceStates.cache.get(timer.user_id);
+        if (!guild || !voiceState) {
+            deleteAfkTimer(db, timer.guild_id, timer.user_id);
+            continue;
+        }
+
+        const settings = tracker.getGuildSettings(guild.id);
+        const reasons = getAfkReasons(voiceState, settings);
+        if (reasons.length === 0) {
+            deleteAfkTimer(db, timer.guild_id, timer.user_id);
+            continue;
+        }
+
+        const timeoutMs = settings.muteTimeoutMinutes * 60 * 1000;
+        const elapsed = now - timer.inactive_since;
+        if (elapsed >= timeoutMs) {
+            if (await moveAfkMember(voiceState, settings, reasons)) {
+                deleteAfkTimer(db, timer.guild_id, timer.user_id);
+            } else {
+                // 移動できなかった場合は、毎分やり直さないよう次の判定まで待つ
+                db.prepare('UPDATE afk_timers SET inactive_since = ?, warned_at = ? WHERE guild_id = ? AND user_id = ?')
+                    .run(now, now, timer.guild_id, timer.user_id);
+            }
+        } else if (timer.warned_at === null && settings.afkWarningMode !== 'none'
+            && elapsed >= timeoutMs - settings.afkWarningMinutes * 60 * 1000) {
+            await sendAfkWarning(voiceState, Math.ceil((timeoutMs - elapsed) / 60000), reasons, settings.afkWarningMode);
+            db.prepare('UPDATE afk_timers SET warned_at = ? WHERE guild_id = ? AND user_id = ?').run(now, timer.guild_id, timer.user_id);
+        }
+    }
+}
+
+// ボイスチャンネルの滞在記録（強制終了した場合、最後に確認した時刻で記録を閉じる）
+export const VOICE_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+function isVoiceMuted(voiceState: VoiceState): boolean {
+    return Boolean(voiceState.selfMute || voiceState.serverMute);
+}
+
+// 記録の対象となるチャンネルか（ボットと AFK チャンネルの滞在は記録しない）
+function isTrackedVoiceChannel(tracker: VoiceTracker, voiceState: VoiceState): boolean {
+    if (!voiceState.channelId || voiceState.member?.user.bot) return false;
+    const afkChannelId = tracker.getGuildSettings(voiceState.guild.id).afkChannelId;
+    return voiceState.channelId !== afkChannelId && voiceState.channelId !== voiceState.guild.afkChannelId;
+}
+
+function closeVoiceSession(db: Database.Database, guildId: string, userId: string, now: number) {
+    db.prepare('UPDATE voice_sessions SET ended_at = ?, last_seen_at = ? WHERE guild_id = ? AND user_id = ? AND ended_at IS NULL')
+        .run(now, now, guildId, userId);
+}
+
+function openVoiceSession(db: Database.Database, voiceState: VoiceState, joined: boolean, now: number) {
+    db.prepare(`
+        INSERT INTO voice_sessions (guild_id, user_id, channel_id, muted, joined, started_at, last_seen_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(voiceState.guild.id, voiceState.id, voiceState.channelId, isVoiceMuted(voiceState) ? 1 : 0, joined ? 1 : 0, now, now);
+}
+
+// 入退室・移動・ミュートの切り替えごとに記録を区切る
+function recordVoiceSession(tracker: VoiceTracker, oldState: VoiceState, newState: VoiceState) {
+    const { db } = tracker;
+    const wasTracked = isTrackedVoiceChannel(tracker, oldState);
+    const isTracked = isTrackedVoiceChannel(tracker, newState);
+    const channelChanged = oldState.channelId !== newState.channelId;
+    if (!channelChanged && wasTracked === isTracked && isVoiceMuted(oldState) === isVoiceMuted(newState)) {
+        return;
+    }
+
+    const now = Date.now();
+    db.transaction(() => {
+        closeVoiceSession(db, newState.guild.id, newState.id, now);
+        if (isTracked) {
+            openVoiceSession(db, newState, channelChanged || !wasTracked, now);
+        }
+    })();
+}
+
+// 起動時に、停止前から開いたままの記録を最後に確認した時刻で閉じ、現在の滞在の記録を始める
+export function reconcileVoiceSessions(tracker: VoiceTracker) {
+    const { db, client } = tracker;
+    const now = Date.now();
+    db.transaction(() => {
+        db.prepare('UPDATE voice_sessions SET ended_at = last_seen_at WHERE ended_at IS NULL').run();
+        client.guilds.cache.forEach(guild => {
+            guild.voiceStates.cache.forEach(voiceState => {
+                if (isTrackedVoiceChannel(tracker, voiceState)) {
+                    openVoiceSession(db, voiceState, true, now);
+                }
+            });
+        });
+    })();
+}
+
+// voiceStateUpdate イベントの処理（滞在記録と AFK タイマーを更新する）
+export function handleVoiceStateUpdate(tracker: VoiceTracker, oldState: VoiceState, newState: VoiceState) {
+    recordVoiceSession(tracker, oldState, newState);
+    updateAfkTimer(tracker, newState);
+
+    // 入退室で「1人だけ」の状態は同じチャンネルの他のメンバーも変わるので判定し直す
+    if (oldState.channelId !== newState.channelId && tracker.getGuildSettings(newState.guild.id).afkCountAlone) {
+        for (const channel of [oldState.channel, newState.channel]) {
+            channel?.members.forEach(member => {
+                if (member.id !== newState.id) updateAfkTimer(tracker, member.voice);
+            });
+        }
+    }
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PermissionFlagsBits } from 'discord.js';
+import { CommandCollection, CommandContext, CommandModule, deployCommandDefinitions, dispatchCommand, getCommandDefinitions, loadCommands } from '../src/commandRegistry';
+import { PERMISSION_RULES } from '../src/permissions';
+import { FakeInteraction, FakeInteractionOptions, FakeRest } from './fakes';
+import { createTestDatabase } from './helpers';
+
+const DENIED = { content: '❌ このコマンドを実行する権限がありません。', ephemeral: true };
+
+// 実行されたかどうかだけを記録するコマンド（/crawl start は crawling 権限、/crawl status は誰でも実行できる）
+function setup() {
+    const db = createTestDatabase();
+    const executed: string[] = [];
+    const command: CommandModule = {
+        data: { name: 'crawl', toJSON: () => ({ name: 'crawl', description: 'テスト' }) },
+        permissions: { start: 'crawling' },
+        execute: async interaction => {
+            executed.push(interaction.options.getSubcommand());
+            await interaction.reply('ok');
+        },
+    };
+    const commands: CommandCollection = new Map([['crawl', command]]);
+    const context = { db, adminUserId: 'owner' } as CommandContext;
+
+    const dispatch = async (options: Omit<FakeInteractionOptions, 'commandName'>) => {
+        const interaction = new FakeInteraction({ commandName: 'crawl', ...options });
+        await dispatchCommand(commands, interaction.asInteraction(), context);
+        return interaction;
+    };
+    return { db, executed, dispatch };
+}
+
+test('必要な Discord の権限を持たないメンバーは実行できない', async () => {
+    const { executed, dispatch } = setup();
+
+    const interaction = await dispatch({ subcommand: 'start', permissions: [PermissionFlagsBits.SendMessages] });
+
+    assert.deepEqual(interaction.replies, [DENIED]);
+    assert.deepEqual(executed, []);
+});
+
+test('既定の Discord の権限を持つメンバー・ボット管理者は実行できる', async () => {
+    const { executed, dispatch } = setup();
+
+    await dispatch({ subcommand: 'start', permissions: [PermissionFlagsBits.ManageGuild] });
+    await dispatch({ subcommand: 'start', userId: 'owner', guildId: null });
+
+    assert.deepEqual(executed, ['start', 'start']);
+});
+
+test('権限を付与したロールのメンバーは実行でき、他のギルドの付与は影響しない', async () => {
+    const { db, executed, dispatch } = setup();
+    db.prepare('INSERT INTO command_permissions (guild_id, permission_key, role_id) VALUES (?, ?, ?)').run('guild', 'crawling', 'crawler-role');
+    db.prepare('INSERT INTO command_permissions (guild_id, permission_key, role_id) VALUES (?, ?, ?)').run('other-guild', 'crawling', 'other-role');
+
+    await dispatch({ subcommand: 'start', roleIds: ['crawler-role'] });
+    const denied = await dispatch({ subcommand: 'start', roleIds: ['other-role'] });
+
+    assert.deepEqual(executed, ['start']);
+    assert.deepEqual(denied.replies, [DENIED]);
+});
+
+test('権限の指定がないサブコマンドは誰でも実行でき、DM では管理系コマンドを実行できない', async () => {
+    const { executed, dispatch } = setup();
+
+    await dispatch({ subcommand: 'status' });
+    const dm = await dispatch({ subcommand: 'start', guildId: null });
+
+    assert.deepEqual(executed, ['status']);
+    assert.deepEqual(dm.replies, [DENIED]);
+});
+
+test('登録されているコマンドの権限設定はロールに付与できない', async () => {
+    const commands = loadCommands();
+    const db = createTestDatabase();
+    db.prepare('INSERT INTO command_permissions (guild_id, permission_key, role_id) VALUES (?, ?, ?)').run('guild', 'permissions', 'role');
+
+    const interaction = new FakeInteraction({ commandName: 'permissions', subcommand: 'grant', roleIds: ['role'] });
+    await dispatchCommand(commands, interaction.asInteraction(), { db, adminUserId: undefined } as CommandContext);
+
+    assert.deepEqual(interaction.replies, [DENIED]);
+});
+
+// 既定の権限はコマンド単位なので、誰でも実行できるサブコマンドを含むコマンド（/afk view・/privacy optout など）には設定しない
+test('すべてのサブコマンドに同じ権限が必要なコマンドは、その権限を Discord 側の既定の権限にする', () => {
+    const expected = [...loadCommands().values()].map(command => [
+        command.data.name,
+        typeof command.permissions === 'string' ? String(PERMISSION_RULES[command.permissions].defaultPermission) : undefined,
+    ]);
+    const actual = getCommandDefinitions(loadCommands()).map(definition => [definition.name, definition.default_member_permissions ?? undefined]);
+    assert.deepEqual(actual, expected);
+    assert.ok(expected.some(([name, permission]) => name === 'crawling' && permission === String(PermissionFlagsBits.ManageGuild)));
+});
+
+test('コマンドの定義は変わった場合のみ REST API で登録し直す', async () => {
+    const db = createTestDatabase();
+    const rest = new FakeRest();
+    const definitions = getCommandDefinitions(loadCommands());
+
+    assert.equal(await deployCommandDefinitions(db, rest.asRest(), 'app', 'guild', definitions), true);
+    assert.equal(await deployCommandDefinitions(db, rest.asRest(), 'app', 'guild', definitions), false);
+    assert.equal(await deployCommandDefinitions(db, rest.asRest(), 'app', undefined, definitions), true);
+    assert.equal(await deployCommandDefinitions(db, rest.asRest(), 'app', 'guild', definitions.slice(1)), true);
+
+    assert.deepEqual(rest.requests.map(request => request.route), [
+        '/applications/app/guilds/guild/commands',
+        '/applications/app/commands',
+        '/applications/app/guilds/guild/commands',
+    ]);
+    assert.equal((rest.requests[0].body as unknown[]).length, definitions.length);
+});
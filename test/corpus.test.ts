@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Writable } from 'stream';
+import { promisify } from 'util';
+import Database from 'better-sqlite3';
+import { CORPUS_FORMAT, CORPUS_FORMAT_VERSION, decodeCorpusFile, exportCorpus, importCorpus, prefixKey } from '../src/corpus';
+import { openDatabase } from '../src/database';
+import { learnText } from '../src/learning';
+import { createTestDatabase, createTestLearner } from './helpers';
+
+const CORPUS = [
+    '今日は猫と公園で遊んだ。',
+    '猫は公園のベンチで寝ていた。',
+    '明日は犬と公園を散歩したい。',
+];
+
+async function createSourceDatabase(db: Database.Database = createTestDatabase()): Promise<Database.Database> {
+    const learner = await createTestLearner(db);
+    CORPUS.forEach((text, index) => learnText(learner, 'source', `channel-${index % 2}`, text, { messageId: `m${index}`, authorId: 'alice' }));
+    return db;
+}
+
+// チャンネルをまとめた、ギルドの連鎖の出現回数
+function chainCounts(db: Database.Database, guildId: string, direction: 'forward' | 'backward') {
+    return db.prepare(`
+        SELECT chain_order, prefix, suffix, SUM(count) AS count FROM markov_chain
+        WHERE guild_id = ? AND direction = ? GROUP BY chain_order, prefix, suffix ORDER BY chain_order, prefix, suffix
+    `).all(guildId, direction);
+}
+
+// エクスポートしたファイルの内容と、書き出した遷移の数
+async function exportToBuffer(db: Database.Database, guildId: string, compress: boolean): Promise<{ data: Buffer; transitions: number }> {
+    const chunks: Buffer[] = [];
+    const output = new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+            chunks.push(chunk);
+            callback();
+        },
+    });
+    const transitions = await exportCorpus(db, guildId, output, compress);
+    return { data: Buffer.concat(chunks), transitions };
+}
+
+function corpusFile(lines: unknown[], header: object = {}): string {
+    return [
+        JSON.stringify({ format: CORPUS_FORMAT, version: CORPUS_FORMAT_VERSION, guildId: 'source', exportedAt: '2026-01-01T00:00:00.000Z', transitions: lines.length, ...header }),
+        ...lines.map(line => typeof line === 'string' ? line : JSON.stringify(line)),
+    ].join('\n');
+}
+
+test('エクスポートしたコーパスを別のギルドへ取り込むと、順方向・逆方向の連鎖がサーバー全体の遷移として再現される', async () => {
+    const source = await createSourceDatabase();
+    const { data, transitions } = await exportToBuffer(source, 'source', true);
+    assert.equal(transitions, (source.prepare("SELECT COUNT(*) AS count FROM markov_chain WHERE direction = 'forward'").get() as { count: number }).count);
+
+    const target = createTestDatabase();
+    const result = importCorpus(target, 'target', decodeCorpusFile(data));
+
+    assert.deepEqual(result, { transitions, skipped: 0, keptChannels: false });
+    assert.deepEqual(chainCounts(target, 'target', 'forward'), chainCounts(source, 'source', 'forward'));
+    // 逆方向の連鎖はファイルに含めず、順方向の遷移から作り直す
+    assert.deepEqual(chainCounts(target, 'target', 'backward'), chainCounts(source, 'source', 'backward'));
+    assert.deepEqual(target.prepare('SELECT DISTINCT channel_id FROM markov_chain').pluck().all(), ['']);
+    // 出典は含めない
+    assert.equal((target.prepare('SELECT COUNT(*) AS count FROM chain_sources').get() as { count: number }).count, 0);
+});
+
+test('同じギルドへ取り込むとチャンネルを保ち、既にある遷移の出現回数を二重に数えない', async () => {
+    const db = await createSourceDatabase();
+    const before = db.prepare('SELECT channel_id, direction, chain_order, prefix, suffix, count FROM markov_chain ORDER BY id').all();
+    const text = (await exportToBuffer(db, 'source', false)).data.toString('utf8');
+
+    const result = importCorpus(db, 'source', text);
+
+    assert.equal(result.keptChannels, true);
+    assert.deepEqual(db.prepare('SELECT channel_id, direction, chain_order, prefix, suffix, count FROM markov_chain ORDER BY id').all(), before);
+
+    // バックアップより後に学習した分は残し、削除された遷移はバックアップの出現回数で戻す
+    const learner = await createTestLearner(db);
+    learnText(learner, 'source', 'channel-0', '今日は猫と公園で遊んだ。', { messageId: 'm3', authorId: 'alice' });
+    db.prepare("DELETE FROM markov_chain WHERE channel_id = 'channel-1'").run();
+    importCorpus(db, 'source', text);
+    const count = (channelId: string, suffix: string) => (db.prepare(`
+        SELECT count FROM markov_chain WHERE channel_id = ? AND direction = 'forward' AND chain_order = 1 AND prefix = ? AND suffix = ?
+    `).get(channelId, prefixKey(['公園']), suffix) as { count: number }).count;
+    assert.equal(count('channel-0', 'で'), 2);
+    assert.equal(count('channel-1', 'の'), 1);
+});
+
+test('書き出し先がエラーにした時点でエクスポートをやめる', async () => {
+    const db = await createSourceDatabase();
+    const learner = await createTestLearner(db);
+    // 複数回に分けて読み出す量の遷移を用意する
+    for (let i = 0; i < 100; i++) {
+        learnText(learner, 'source', 'channel', `文章${i}番目の単語${i * 7}と単語${i * 13}を並べた。`, null);
+    }
+    let writes = 0;
+    const output = new Writable({
+        write(_chunk, _encoding, callback) {
+            writes++;
+            callback(writes > 1 ? new Error('too large') : null);
+        },
+    });
+
+    await assert.rejects(exportCorpus(db, 'source', output, false), /too large/);
+    assert.equal(writes, 2);
+});
+
+test('読み取れない行や不正な遷移はスキップし、残りを取り込む', () => {
+    const db = createTestDatabase();
+    const valid = { channelId: 'channel', order: 2, prefix: ['猫', 'が'], suffix: '好き', count: 3 };
+    const text = corpusFile([
+        valid,
+        '{ 壊れた行',
+        { ...valid, order: 3 },
+        { ...valid, count: 0 },
+        { ...valid, prefix: ['猫', '\u001f'] },
+    ]);
+
+    const result = importCorpus(db, 'guild', text);
+
+    assert.deepEqual(result, { transitions: 1, skipped: 4, keptChannels: false });
+    const rows = db.prepare('SELECT direction, prefix, suffix, count FROM markov_chain ORDER BY direction').all();
+    assert.deepEqual(rows, [
+        { direction: 'backward', prefix: prefixKey(['好き', 'が']), suffix: '猫', count: 3 },
+        { direction: 'forward', prefix: prefixKey(['猫', 'が']), suffix: '好き', count: 3 },
+    ]);
+});
+
+test('新しいバージョンや別の形式のファイルは取り込まない', () => {
+    const db = createTestDatabase();
+    assert.throws(() => importCorpus(db, 'guild', corpusFile([], { version: CORPUS_FORMAT_VERSION + 1 })), /対応していないバージョン/);
+    assert.throws(() => importCorpus(db, 'guild', corpusFile([], { format: 'other' })), /コーパスファイルの形式ではありません/);
+    assert.throws(() => importCorpus(db, 'guild', 'not json'), /ヘッダーを読み取れません/);
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM markov_chain').get() as { count: number }).count, 0);
+});
+
+test('CLI でエクスポートしたファイルを CLI で別のデータベースへ取り込める', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'corpus-cli-'));
+    try {
+        const sourcePath = path.join(directory, 'source.db');
+        const targetPath = path.join(directory, 'target.db');
+        const filePath = path.join(directory, 'backup.jsonl.gz');
+        const source = await createSourceDatabase(openDatabase(sourcePath));
+        source.close();
+
+        const runCli = (...args: string[]) => promisify(execFile)(process.execPath, ['--require', 'ts-node/register', 'src/cli.ts', ...args]);
+        await runCli('export', 'source', filePath, '--db', sourcePath);
+        const { stdout } = await runCli('import', 'target', filePath, '--db', targetPath);
+        assert.match(stdout, /Imported \d+ transitions into guild target \(0 skipped, channels merged into the guild corpus\)/);
+
+        const [exported, imported] = [openDatabase(sourcePath), openDatabase(targetPath)];
+        assert.deepEqual(chainCounts(imported, 'target', 'forward'), chainCounts(exported, 'source', 'forward'));
+        exported.close();
+        imported.close();
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,153 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import Database from 'better-sqlite3';
+import { CRAWL_FETCH_LIMIT, Crawler, getCrawlJob, recordLiveLearnedMessage, runCrawlQueue } from '../src/crawl';
+import { learnText } from '../src/learning';
+import { CrawlJobChannelRow } from '../src/types';
+import { FakeClient, FakeTextChannel, snowflake } from './fakes';
+import { createTestDatabase, createTestLearner } from './helpers';
+
+// /crawling start と同じようにジョブを登録する（クロール済みのチャンネルは新しいメッセージから取得する）
+function createCrawlJob(db: Database.Database, channelIds: string[], messageLimit: number, statusMessageId: string | null = null): number {
+    const now = Date.now();
+    const result = db.prepare(`
+        INSERT INTO crawl_jobs (guild_id, requested_by, status, message_limit, status_channel_id, status_message_id, created_at, updated_at)
+        VALUES ('guild', 'admin', 'queued', ?, ?, ?, ?, ?)
+    `).run(messageLimit, statusMessageId ? channelIds[0] : null, statusMessageId, now, now);
+    for (const channelId of channelIds) {
+        const hasCheckpoint = db.prepare('SELECT 1 FROM crawl_checkpoints WHERE channel_id = ?').get(channelId);
+        db.prepare('INSERT INTO crawl_job_channels (job_id, channel_id, phase) VALUES (?, ?, ?)')
+            .run(result.lastInsertRowid, channelId, hasCheckpoint ? 'newer' : 'older');
+    }
+    return Number(result.lastInsertRowid);
+}
+
+function addMessages(channel: FakeTextChannel, from: number, to: number) {
+    const messages = [];
+    for (let i = from; i < to; i++) {
+        messages.push({ id: snowflake(i), content: `メッセージ${i}を送りました。`, author: { id: 'author', bot: false } });
+    }
+    channel.addMessages(messages);
+}
+
+async function setup() {
+    const db = createTestDatabase();
+    const client = new FakeClient();
+    const channel = client.addGuild('guild').addTextChannel('channel');
+    const learner = await createTestLearner(db);
+    const crawler: Crawler = { db, client: client.asClient(), getLearner: () => learner, batchDelayMs: 0 };
+    return { db, client, channel, crawler, learner };
+}
+
+function getCheckpoint(db: Database.Database) {
+    return db.prepare('SELECT oldest_message_id, newest_message_id FROM crawl_checkpoints WHERE channel_id = ?').get('channel');
+}
+
+function getJobChannel(db: Database.Database, jobId: number): CrawlJobChannelRow {
+    return db.prepare('SELECT * FROM crawl_job_channels WHERE job_id = ?').get(jobId) as CrawlJobChannelRow;
+}
+
+test('初回のクロールは最新のメッセージから before でさかのぼり、全件を取り込む', async () => {
+    const { db, channel, crawler } = await setup();
+    addMessages(channel, 0, 250);
+
+    const jobId = createCrawlJob(db, ['channel'], 1000);
+    await runCrawlQueue(crawler);
+
+    assert.deepEqual(channel.fetchRequests, [
+        { limit: CRAWL_FETCH_LIMIT },
+        { limit: CRAWL_FETCH_LIMIT, before: snowflake(150) },
+        { limit: CRAWL_FETCH_LIMIT, before: snowflake(50) },
+    ]);
+    const job = getCrawlJob(db, jobId)!;
+    assert.equal(job.status, 'completed');
+    assert.equal(job.processed_messages, 250);
+    assert.ok(job.inserted_chains > 0);
+    assert.deepEqual(getJobChannel(db, jobId), { job_id: jobId, channel_id: 'channel', phase: 'done', fetched_messages: 250 });
+    assert.deepEqual(getCheckpoint(db), { oldest_message_id: snowflake(0), newest_message_id: snowflake(249) });
+});
+
+test('2 回目のクロールは前回より新しいメッセージを after で取得してから、古いメッセージを確認する', async () => {
+    const { db, channel, crawler } = await setup();
+    addMessages(channel, 0, 50);
+    createCrawlJob(db, ['channel'], 1000);
+    await runCrawlQueue(crawler);
+
+    addMessages(channel, 50, 170);
+    channel.fetchRequests.length = 0;
+    const jobId = createCrawlJob(db, ['channel'], 1000);
+    await runCrawlQueue(crawler);
+
+    assert.deepEqual(channel.fetchRequests, [
+        { limit: CRAWL_FETCH_LIMIT, after: snowflake(49) },
+        { limit: CRAWL_FETCH_LIMIT, after: snowflake(149) },
+        { limit: CRAWL_FETCH_LIMIT, before: snowflake(0) },
+    ]);
+    assert.equal(getCrawlJob(db, jobId)!.processed_messages, 120);
+    assert.deepEqual(getCheckpoint(db), { oldest_message_id: snowflake(0), newest_message_id: snowflake(169) });
+});
+
+test('取得件数の上限に達したら途中で止め、取り込んだ範囲だけを記録する', async () => {
+    const { db, channel, crawler } = await setup();
+    addMessages(channel, 0, 250);
+
+    const jobId = createCrawlJob(db, ['channel'], 150);
+    await runCrawlQueue(crawler);
+
+    assert.equal(channel.fetchRequests.length, 2);
+    assert.equal(getCrawlJob(db, jobId)!.processed_messages, 150);
+    assert.deepEqual(getJobChannel(db, jobId).fetched_messages, 150);
+    assert.deepEqual(getCheckpoint(db), { oldest_message_id: snowflake(100), newest_message_id: snowflake(249) });
+});
+
+test('取得できないチャンネルは飛ばしてジョブを完了し、進捗メッセージを更新する', async () => {
+    const { db, channel, crawler } = await setup();
+    addMessages(channel, 0, 10);
+
+    const jobId = createCrawlJob(db, ['channel', 'missing'], 1000, 'status');
+    await runCrawlQueue(crawler);
+
+    assert.equal(getCrawlJob(db, jobId)!.status, 'completed');
+    const phases = db.prepare('SELECT channel_id, phase FROM crawl_job_channels WHERE job_id = ? ORDER BY channel_id').all(jobId);
+    assert.deepEqual(phases, [{ channel_id: 'channel', phase: 'done' }, { channel_id: 'missing', phase: 'done' }]);
+    assert.ok(channel.edits.length > 0);
+    assert.ok(channel.edits.every(edit => edit.messageId === 'status'));
+    assert.match(channel.edits[channel.edits.length - 1].content, /✅ 完了 クロールジョブ/);
+});
+
+test('学習を拒否したユーザーのメッセージは取得しても学習しない', async () => {
+    const { db, channel, crawler } = await setup();
+    channel.addMessages([{ id: snowflake(0), content: '学習しないでください。', author: { id: 'author', bot: false } }]);
+    const learner = await createTestLearner(db, ['author']);
+
+    const jobId = createCrawlJob(db, ['channel'], 1000);
+    await runCrawlQueue({ ...crawler, getLearner: () => learner });
+
+    assert.equal(getJobChannel(db, jobId).fetched_messages, 1);
+    assert.equal(getCrawlJob(db, jobId)!.inserted_chains, 0);
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM markov_chain').get() as { count: number }).count, 0);
+});
+
+test('リアルタイム学習はクロール済み範囲を進めず、停止中のメッセージも次のクロールで取得する', async () => {
+    const { db, channel, crawler, learner } = await setup();
+    addMessages(channel, 0, 10);
+    createCrawlJob(db, ['channel'], 1000);
+    await runCrawlQueue(crawler);
+
+    // 10〜14 は停止中に投稿され、15 だけをリアルタイム学習した
+    addMessages(channel, 10, 16);
+    learnText(learner, 'guild', 'channel', 'メッセージ15を送りました。', { messageId: snowflake(15), authorId: 'author' });
+    recordLiveLearnedMessage(db, 'channel', snowflake(15));
+
+    channel.fetchRequests.length = 0;
+    const jobId = createCrawlJob(db, ['channel'], 1000);
+    await runCrawlQueue(crawler);
+
+    assert.deepEqual(channel.fetchRequests[0], { limit: CRAWL_FETCH_LIMIT, after: snowflake(9) });
+    assert.equal(getCrawlJob(db, jobId)!.processed_messages, 5);
+    assert.deepEqual(getCheckpoint(db), { oldest_message_id: snowflake(0), newest_message_id: snowflake(15) });
+    // 15 は学習し直さないので、同じ長さの 14 と出典の数が同じになる
+    const countSources = db.prepare('SELECT COUNT(*) FROM chain_sources WHERE message_id = ?').pluck();
+    assert.equal(countSources.get(snowflake(15)), countSources.get(snowflake(14)));
+    assert.equal(db.prepare('SELECT COUNT(*) FROM live_learned_messages').pluck().get(), 0);
+});
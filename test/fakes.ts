@@ -0,0 +1,296 @@
+import { EventEmitter } from 'events';
+import { ChatInputCommandInteraction, Client, Collection, MessageReaction, PermissionsBitField, REST, Status, User } from 'discord.js';
+import { compareSnowflakes } from '../src/crawl';
+
+// Discord のゲートウェイ・REST API の代わりにテストで使う、必要な部分だけを持つオブジェクト
+// （ボット本体のコードへは as unknown as Client などで渡す）
+
+export class FakeClient extends EventEmitter {
+    user = { id: 'bot', tag: 'bot#0000' };
+    ws = { status: Status.Ready, ping: 42 };
+    guilds = { cache: new Collection<string, FakeGuild>() };
+    channels = {
+        cache: new Collection<string, FakeTextChannel | FakeVoiceChannel>(),
+        // 実際の API と同様に、存在しないチャンネルはエラーにする
+        fetch: async (channelId: string) => {
+            const channel = this.channels.cache.get(channelId);
+            if (!channel) throw new Error('Unknown Channel');
+            return channel;
+        },
+    };
+
+    isReady(): boolean {
+        return this.ws.status === Status.Ready;
+    }
+
+    addGuild(guildId: string, name = 'テストサーバー'): FakeGuild {
+        const guild = new FakeGuild(this, guildId, name);
+        this.guilds.cache.set(guildId, guild);
+        return guild;
+    }
+
+    asClient(): Client {
+        return this as unknown as Client;
+    }
+}
+
+export class FakeGuild {
+    afkChannelId: string | null = null;
+    channels = { cache: new Collection<string, FakeTextChannel | FakeVoiceChannel>() };
+    members = {
+        cache: new Collection<string, FakeMember>(),
+        fetch: async (userId: string) => {
+            const member = this.members.cache.get(userId);
+            if (!member) throw new Error('Unknown Member');
+            return member;
+        },
+    };
+    voiceStates = { cache: new Collection<string, FakeVoiceState>() };
+
+    constructor(readonly client: FakeClient, readonly id: string, readonly name: string) {}
+
+    addTextChannel(channelId: string): FakeTextChannel {
+        const channel = new FakeTextChannel(channelId, this.id);
+        this.channels.cache.set(channelId, channel);
+        this.client.channels.cache.set(channelId, channel);
+        return channel;
+    }
+
+    addVoiceChannel(channelId: string): FakeVoiceChannel {
+        const channel = new FakeVoiceChannel(channelId, this);
+        this.channels.cache.set(channelId, channel);
+        this.client.channels.cache.set(channelId, channel);
+        return channel;
+    }
+
+    addMember(userId: string, options: { bot?: boolean; roleIds?: string[]; permissions?: bigint[] } = {}): FakeMember {
+        const member = new FakeMember(this, userId, options.bot ?? false, options.roleIds ?? [], options.permissions ?? []);
+        this.members.cache.set(userId, member);
+        return member;
+    }
+
+    // ボイスの状態を変更し、ゲートウェイと同様に変更前・変更後の状態で voiceStateUpdate を発生させる
+    updateVoiceState(userId: string, changes: Partial<VoiceStateFields>) {
+        const oldState = this.voiceStates.cache.get(userId) ?? new FakeVoiceState(this, userId, EMPTY_VOICE_STATE);
+        const newState = new FakeVoiceState(this, userId, { ...oldState.fields, ...changes });
+        if (newState.channelId) {
+            this.voiceStates.cache.set(userId, newState);
+        } else {
+            this.voiceStates.cache.delete(userId);
+        }
+        this.client.emit('voiceStateUpdate', oldState, newState);
+    }
+}
+
+export class FakeMember {
+    readonly user: { id: string; bot: boolean; tag: string };
+    readonly roles: { cache: Collection<string, { id: string }> };
+    readonly permissions: PermissionsBitField;
+    readonly directMessages: string[] = [];
+
+    constructor(readonly guild: FakeGuild, readonly id: string, bot: boolean, roleIds: string[], permissions: bigint[]) {
+        this.user = { id, bot, tag: `${id}#0000` };
+        this.roles = { cache: new Collection(roleIds.map(roleId => [roleId, { id: roleId }])) };
+        this.permissions = new PermissionsBitField(permissions);
+    }
+
+    asUser(): User {
+        return this.user as unknown as User;
+    }
+
+    get voice(): FakeVoiceState {
+        return this.guild.voiceStates.cache.get(this.id) ?? new FakeVoiceState(this.guild, this.id, EMPTY_VOICE_STATE);
+    }
+
+    async send(content: string) {
+        this.directMessages.push(content);
+    }
+}
+
+interface VoiceStateFields {
+    channelId: string | null;
+    selfMute: boolean;
+    selfDeaf: boolean;
+    serverMute: boolean;
+    serverDeaf: boolean;
+}
+
+const EMPTY_VOICE_STATE: VoiceStateFields = { channelId: null, selfMute: false, selfDeaf: false, serverMute: false, serverDeaf: false };
+
+export class FakeVoiceState {
+    constructor(readonly guild: FakeGuild, readonly id: string, readonly fields: VoiceStateFields) {}
+
+    get channelId() { return this.fields.channelId; }
+    get selfMute() { return this.fields.selfMute; }
+    get selfDeaf() { return this.fields.selfDeaf; }
+    get serverMute() { return this.fields.serverMute; }
+    get serverDeaf() { return this.fields.serverDeaf; }
+
+    get member(): FakeMember | null {
+        return this.guild.members.cache.get(this.id) ?? null;
+    }
+
+    get channel(): FakeVoiceChannel | null {
+        const channel = this.channelId ? this.guild.channels.cache.get(this.channelId) : undefined;
+        return channel instanceof FakeVoiceChannel ? channel : null;
+    }
+
+    // ボットによる移動（ゲートウェイから voiceStateUpdate が届く）
+    async setChannel(channel: FakeVoiceChannel, reason?: string) {
+        channel.moveReasons.push(reason ?? '');
+        this.guild.updateVoiceState(this.id, { channelId: channel.id });
+        return this.member;
+    }
+}
+
+export class FakeVoiceChannel {
+    readonly sent: unknown[] = [];
+    readonly moveReasons: string[] = [];
+
+    constructor(readonly id: string, readonly guild: FakeGuild) {}
+
+    get guildId() { return this.guild.id; }
+
+    get members(): Collection<string, FakeMember> {
+        return this.guild.members.cache.filter(member => this.guild.voiceStates.cache.get(member.id)?.channelId === this.id);
+    }
+
+    isVoiceBased() { return true; }
+    isTextBased() { return true; }
+    isDMBased() { return false; }
+
+    async send(content: unknown) {
+        this.sent.push(content);
+    }
+}
+
+export interface FakeMessage {
+    id: string;
+    content: string;
+    author: { id: string; bot: boolean };
+}
+
+export class FakeTextChannel {
+    readonly sent: unknown[] = [];
+    readonly edits: { messageId: string; content: string }[] = [];
+    // messages.fetch に渡された取得条件（ページングの確認用）
+    readonly fetchRequests: { limit: number; before?: string; after?: string }[] = [];
+    private history: FakeMessage[] = [];
+
+    constructor(readonly id: string, readonly guildId: string) {}
+
+    // メッセージを古い順に追加する
+    addMessages(messages: FakeMessage[]) {
+        this.history.push(...messages);
+        this.history.sort((a, b) => compareSnowflakes(a.id, b.id));
+    }
+
+    // 実際の API と同様に、新しい順で最大 limit 件を返す（after の場合は after の直後から limit 件）
+    messages = {
+        fetch: async (options: { limit: number; before?: string; after?: string }) => {
+            this.fetchRequests.push({ ...options });
+            let found: FakeMessage[];
+            if (options.before) {
+                found = this.history.filter(message => compareSnowflakes(message.id, options.before!) < 0).slice(-options.limit);
+            } else if (options.after) {
+                found = this.history.filter(message => compareSnowflakes(message.id, options.after!) > 0).slice(0, options.limit);
+            } else {
+                found = this.history.slice(-options.limit);
+            }
+            return new Collection(found.reverse().map(message => [message.id, message]));
+        },
+        edit: async (messageId: string, content: string) => {
+            this.edits.push({ messageId, content });
+        },
+    };
+
+    isVoiceBased() { return false; }
+    isTextBased() { return true; }
+    isDMBased() { return false; }
+
+    async send(content: unknown) {
+        this.sent.push(content);
+    }
+}
+
+// メッセージへのリアクション（カスタム絵文字の場合のみ emoji.id を持つ）
+export class FakeReaction {
+    readonly message: { id: string; guild: FakeGuild };
+    readonly emoji: { id: string | null; name: string };
+
+    constructor(guild: FakeGuild, messageId: string, emojiName: string, emojiId: string | null = null) {
+        this.message = { id: messageId, guild };
+        this.emoji = { id: emojiId, name: emojiName };
+    }
+
+    asReaction(): MessageReaction {
+        return this as unknown as MessageReaction;
+    }
+}
+
+// 連番の Snowflake 風 ID（桁数をそろえる）
+export function snowflake(index: number): string {
+    return `1${String(index).padStart(18, '0')}`;
+}
+
+// コマンドの登録要求を記録する REST API
+export class FakeRest {
+    readonly requests: { route: string; body: unknown }[] = [];
+
+    async put(route: string, options: { body: unknown }) {
+        this.requests.push({ route, body: options.body });
+        return [];
+    }
+
+    asRest(): REST {
+        return this as unknown as REST;
+    }
+}
+
+export interface FakeInteractionOptions {
+    commandName: string;
+    subcommand?: string;
+    userId?: string;
+    guildId?: string | null;
+    permissions?: bigint[]; // メンバーが持つ Discord の権限
+    roleIds?: string[];
+}
+
+// スラッシュコマンドの実行（返信の内容を replies に記録する）
+export class FakeInteraction {
+    readonly commandName: string;
+    readonly user: { id: string; tag: string };
+    readonly guildId: string | null;
+    readonly memberPermissions: PermissionsBitField | null;
+    readonly member: { roles: string[] } | null;
+    readonly replies: unknown[] = [];
+    replied = false;
+    deferred = false;
+    options: { getSubcommand(required?: boolean): string | null };
+
+    constructor(options: FakeInteractionOptions) {
+        this.commandName = options.commandName;
+        this.user = { id: options.userId ?? 'user', tag: `${options.userId ?? 'user'}#0000` };
+        this.guildId = options.guildId === undefined ? 'guild' : options.guildId;
+        this.memberPermissions = this.guildId ? new PermissionsBitField(options.permissions ?? []) : null;
+        this.member = this.guildId ? { roles: options.roleIds ?? [] } : null;
+        this.options = { getSubcommand: () => options.subcommand ?? null };
+    }
+
+    inGuild() {
+        return this.guildId !== null;
+    }
+
+    async reply(response: unknown) {
+        this.replies.push(response);
+        this.replied = true;
+    }
+
+    async editReply(response: unknown) {
+        this.replies.push(response);
+    }
+
+    asInteraction(): ChatInputCommandInteraction {
+        return this as unknown as ChatInputCommandInteraction;
+    }
+}
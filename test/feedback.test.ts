@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import Database from 'better-sqlite3';
+import { PermissionFlagsBits } from 'discord.js';
+import { FeedbackTracker, getFeedbackStats, handleFeedbackReaction, isBlacklistedOutput, parseFeedbackEmoji, recordGeneratedMessage } from '../src/feedback';
+import { ChainStep, Generator, generateMarkovSentence } from '../src/generation';
+import { learnText } from '../src/learning';
+import { GuildSettings } from '../src/types';
+import { FakeClient, FakeGuild, FakeReaction } from './fakes';
+import { createTestDatabase, createTestGuildSettings, createTestLearner, getTestTokenizer } from './helpers';
+
+const CORPUS = [
+    '今日は猫と公園で遊んだ。',
+    '猫は公園のベンチで寝ていた。',
+    '明日は犬と公園を散歩したい。',
+];
+
+interface FeedbackTest {
+    db: Database.Database;
+    guild: FakeGuild;
+    tracker: FeedbackTracker;
+    // 乱数が常に 0 の生成（候補を単語順に並べた最初の遷移を選ぶ）と、たどった連鎖
+    generate(): Promise<{ sentence: string; trace: ChainStep[] }>;
+}
+
+async function setup(settings: GuildSettings = createTestGuildSettings()): Promise<FeedbackTest> {
+    const db = createTestDatabase();
+    const learner = await createTestLearner(db);
+    CORPUS.forEach((text, index) => learnText(learner, 'guild', 'channel', text, { messageId: `m${index}`, authorId: 'alice' }));
+
+    const guild = new FakeClient().addGuild('guild');
+    guild.addMember('user');
+    guild.addMember('moderator', { permissions: [PermissionFlagsBits.ManageGuild] });
+    guild.addMember('other-bot', { bot: true });
+
+    const tokenizer = await getTestTokenizer();
+    return {
+        db,
+        guild,
+        tracker: { db, adminUserId: undefined, getGuildSettings: () => settings },
+        async generate() {
+            const trace: ChainStep[] = [];
+            const generator: Generator = { db, tokenizer, random: () => 0, trace };
+            return { sentence: await generateMarkovSentence(generator, { guildId: 'guild' }, 50, 1), trace };
+        },
+    };
+}
+
+function react(feedback: FeedbackTest, messageId: string, userId: string, emoji: string, added = true, emojiId: string | null = null) {
+    const reaction = new FakeReaction(feedback.guild, messageId, emoji, emojiId);
+    return handleFeedbackReaction(feedback.tracker, reaction.asReaction(), feedback.guild.members.cache.get(userId)!.asUser(), added);
+}
+
+async function sendGenerated(feedback: FeedbackTest, messageId: string): Promise<string> {
+    const { sentence, trace } = await feedback.generate();
+    recordGeneratedMessage(feedback.db, { id: messageId, guildId: 'guild', channelId: 'channel' }, sentence, 'generate', trace);
+    return sentence;
+}
+
+test('高評価のリアクションで文章がたどった遷移の重みが上がり、取り消すと元に戻る', async () => {
+    const feedback = await setup();
+    assert.equal(await sendGenerated(feedback, 'bot-1'), '今日は公園で寝ていた。');
+
+    await react(feedback, 'bot-1', 'user', '👍');
+    // 同じユーザーの同じリアクションは 1 回だけ数える
+    await react(feedback, 'bot-1', 'user', '👍');
+    let { trace } = await feedback.generate();
+    assert.deepEqual([trace[0].chosen, trace[0].weight, trace[0].totalWeight], ['今日', 1.5, 3.5]);
+
+    await react(feedback, 'bot-1', 'user', '👍', false);
+    ({ trace } = await feedback.generate());
+    assert.deepEqual([trace[0].weight, trace[0].totalWeight], [1, 3]);
+    assert.equal(feedback.db.prepare('SELECT COUNT(*) AS count FROM transition_feedback').pluck().get(), 0);
+});
+
+test('低評価のリアクションで重みが下がり、複数の評価は合計して反映する', async () => {
+    const feedback = await setup();
+    await sendGenerated(feedback, 'bot-1');
+    await sendGenerated(feedback, 'bot-2');
+
+    await react(feedback, 'bot-1', 'user', '👎');
+    let { trace } = await feedback.generate();
+    assert.deepEqual([trace[0].weight, trace[0].totalWeight], [1 / 1.5, 2 + 1 / 1.5]);
+
+    // 同じ遷移をたどった別の文章への低評価も同じ遷移に加算する
+    await react(feedback, 'bot-2', 'user', '👎');
+    ({ trace } = await feedback.generate());
+    assert.equal(trace[0].weight, 1 / 1.5 ** 2);
+});
+
+test('設定にないリアクション・ボットのリアクション・生成していないメッセージへのリアクションは無視する', async () => {
+    const feedback = await setup();
+    await sendGenerated(feedback, 'bot-1');
+
+    await react(feedback, 'bot-1', 'user', '❤️');
+    await react(feedback, 'bot-1', 'other-bot', '👍');
+    await react(feedback, 'someone-else', 'user', '👍');
+
+    assert.equal(feedback.db.prepare('SELECT COUNT(*) AS count FROM feedback_votes').pluck().get(), 0);
+    assert.equal(feedback.db.prepare('SELECT COUNT(*) AS count FROM transition_feedback').pluck().get(), 0);
+});
+
+test('使用禁止のリアクションは権限を持つメンバーが付けた場合のみ、その文章を使わせないようにする', async () => {
+    const feedback = await setup();
+    const sentence = await sendGenerated(feedback, 'bot-1');
+
+    await react(feedback, 'bot-1', 'user', '🚫');
+    assert.equal(isBlacklistedOutput(feedback.db, 'guild', sentence), false);
+
+    await react(feedback, 'bot-1', 'moderator', '🚫');
+    assert.equal(isBlacklistedOutput(feedback.db, 'guild', sentence), true);
+    assert.equal(isBlacklistedOutput(feedback.db, 'other-guild', sentence), false);
+    // 遷移の重みは変えない
+    assert.equal(feedback.db.prepare('SELECT COUNT(*) AS count FROM transition_feedback').pluck().get(), 0);
+
+    await react(feedback, 'bot-1', 'moderator', '🚫', false);
+    assert.equal(isBlacklistedOutput(feedback.db, 'guild', sentence), false);
+});
+
+test('カスタム絵文字は ID で照合する', async () => {
+    const feedback = await setup(createTestGuildSettings({ feedbackUpEmoji: parseFeedbackEmoji('<:good:123456>') }));
+    await sendGenerated(feedback, 'bot-1');
+
+    await react(feedback, 'bot-1', 'user', '👍');
+    await react(feedback, 'bot-1', 'user', 'good', true, '123456');
+
+    assert.deepEqual(feedback.db.prepare('SELECT kind FROM feedback_votes').pluck().all(), ['up']);
+});
+
+test('連鎖をたどっていない文章は記録せず、評価の集計には高評価の文章だけを並べる', async () => {
+    const feedback = await setup();
+    recordGeneratedMessage(feedback.db, { id: 'error', guildId: 'guild', channelId: 'channel' }, 'エラー', 'generate', []);
+    assert.equal(feedback.db.prepare('SELECT COUNT(*) AS count FROM generated_messages').pluck().get(), 0);
+
+    for (const messageId of ['liked', 'disliked', 'banned']) {
+        await sendGenerated(feedback, messageId);
+    }
+    feedback.guild.addMember('user-2');
+    await react(feedback, 'liked', 'user', '👍');
+    await react(feedback, 'liked', 'user-2', '👍');
+    await react(feedback, 'disliked', 'user', '👎');
+    await react(feedback, 'banned', 'user', '👍');
+    await react(feedback, 'banned', 'moderator', '🚫');
+
+    const stats = getFeedbackStats(feedback.db, 'guild', 10);
+    assert.equal(stats.ratedMessages, 3);
+    assert.equal(stats.blacklistedMessages, 1);
+    assert.ok(stats.adjustedTransitions > 0);
+    assert.deepEqual(stats.topMessages.map(message => [message.message_id, message.up, message.down]), [['liked', 2, 0]]);
+});
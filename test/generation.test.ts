@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { before, test } from 'node:test';
+import Database from 'better-sqlite3';
+import { ChainStep, Generator, generateMarkovSentence, generateResponseFromMessage } from '../src/generation';
+import { BOS_TOKEN, EOS_TOKEN, learnText, Tokenizer } from '../src/learning';
+import { createSeededRandom } from '../src/random';
+import { createTestDatabase, createTestLearner, getTestTokenizer } from './helpers';
+
+const CORPUS = [
+    '今日は猫と公園で遊んだ。',
+    '猫は公園のベンチで寝ていた。',
+    '明日は犬と公園を散歩したい。',
+    '犬は猫よりも散歩が好きだ。',
+    '公園の桜がとてもきれいだった。',
+];
+
+let db: Database.Database;
+let tokenizer: Tokenizer;
+
+before(async () => {
+    db = createTestDatabase();
+    tokenizer = await getTestTokenizer();
+    const learner = await createTestLearner(db);
+    CORPUS.forEach((text, index) => learnText(learner, 'guild', 'channel', text, { messageId: `m${index}`, authorId: index < 2 ? 'alice' : 'bob' }));
+});
+
+function seededGenerator(seed: number): Generator {
+    return { db, tokenizer, random: createSeededRandom(seed) };
+}
+
+async function generateMany(generator: Generator, times: number): Promise<string[]> {
+    const sentences: string[] = [];
+    for (let i = 0; i < times; i++) {
+        sentences.push(await generateMarkovSentence(generator, { guildId: 'guild' }, 50, 2));
+    }
+    return sentences;
+}
+
+test('同じシードの乱数からは同じ文章の列を生成する', async () => {
+    const first = await generateMany(seededGenerator(42), 10);
+    const second = await generateMany(seededGenerator(42), 10);
+    assert.deepEqual(second, first);
+});
+
+test('シードが異なれば異なる文章を生成する', async () => {
+    const sentences = new Set<string>();
+    for (let seed = 1; seed <= 20; seed++) {
+        sentences.add((await generateMany(seededGenerator(seed), 1))[0]);
+    }
+    assert.ok(sentences.size > 1);
+});
+
+test('生成した文章はコーパスの単語だけから作られ、境界トークンを含まない', async () => {
+    for (const sentence of await generateMany(seededGenerator(7), 20)) {
+        assert.ok(sentence.length > 0);
+        assert.doesNotMatch(sentence, /<BOS>|<EOS>/);
+        for (const token of tokenizer.tokenize(sentence)) {
+            assert.ok(CORPUS.some(text => text.includes(token.surface_form)), `${token.surface_form} はコーパスにない単語です`);
+        }
+    }
+});
+
+test('乱数が常に 0 の場合は候補を単語順に並べた最初の遷移を選ぶ', async () => {
+    const generator: Generator = { db, tokenizer, random: () => 0 };
+    // 今日 → は → 公園 → で → 寝 → て → い → た → 。 のように、各文脈の候補の先頭をたどる
+    assert.equal(await generateMarkovSentence(generator, { guildId: 'guild' }, 50, 1), '今日は公園で寝ていた。');
+});
+
+test('trace を渡すと、たどった文脈・候補の数・選んだ単語を記録する', async () => {
+    const trace: ChainStep[] = [];
+    const generator: Generator = { db, tokenizer, random: () => 0, trace };
+
+    await generateMarkovSentence(generator, { guildId: 'guild' }, 50, 1);
+
+    assert.deepEqual(trace.map(step => step.chosen), ['今日', 'は', '公園', 'で', '寝', 'て', 'い', 'た', '。', EOS_TOKEN]);
+    // 文頭からは 5 つの文の最初の単語（今日・猫・明日・犬・公園）が候補になる
+    assert.deepEqual(trace[0], { direction: 'forward', prefix: [BOS_TOKEN], candidates: 5, chosen: '今日', weight: 1, totalWeight: 5 });
+    assert.deepEqual(trace[2].prefix, ['は']);
+
+    // 続けて生成した場合は最後の文章の連鎖だけが残る
+    await generateMarkovSentence(generator, { guildId: 'guild' }, 2, 1);
+    assert.deepEqual(trace.map(step => step.chosen), ['今日', 'は']);
+});
+
+test('応答の生成では、選んだ候補が文末・文頭の両方向にたどった連鎖を記録する', async () => {
+    const trace: ChainStep[] = [];
+    const response = await generateResponseFromMessage({ db, tokenizer, random: createSeededRandom(5), trace }, '桜', { guildId: 'guild' }, 50, 4);
+
+    assert.ok(trace.length > 0);
+    assert.ok(trace.every(step => step.prefix.length >= 1 && step.prefix.length <= 4));
+    assert.ok(trace.some(step => step.direction === 'backward'));
+    assert.match(response, /桜/);
+});
+
+test('投稿者を指定した場合はそのユーザーのメッセージから学習した遷移のみを使う', async () => {
+    for (const sentence of await Promise.all([1, 2, 3, 4, 5].map(seed =>
+        generateMarkovSentence(seededGenerator(seed), { guildId: 'guild', authorId: 'alice' }, 50, 2)
+    ))) {
+        assert.doesNotMatch(sentence, /犬|桜/);
+    }
+});
+
+test('投稿者を指定した場合は、他のユーザーが何度も学習させた遷移もそのユーザーの出現回数で重み付けする', async () => {
+    const db = createTestDatabase();
+    const learner = await createTestLearner(db);
+    learnText(learner, 'guild', 'channel', '猫が好き', { messageId: 'a1', authorId: 'alice' });
+    learnText(learner, 'guild', 'channel', '猫が嫌い', { messageId: 'a2', authorId: 'alice' });
+    for (let i = 0; i < 50; i++) {
+        learnText(learner, 'guild', 'channel', '猫が好き', { messageId: `b${i}`, authorId: 'bob' });
+    }
+
+    const trace: ChainStep[] = [];
+    await generateMarkovSentence({ db, tokenizer, random: () => 0, trace }, { guildId: 'guild', authorId: 'alice' }, 50, 2);
+
+    const step = trace.find(step => step.prefix.join('') === '猫が');
+    assert.deepEqual([step?.candidates, step?.weight, step?.totalWeight], [2, 1, 2]);
+});
+
+test('コーパスが空の場合はデータが足りないことを返す', async () => {
+    const generator: Generator = { db: createTestDatabase(), tokenizer, random: createSeededRandom(1) };
+    assert.equal(await generateMarkovSentence(generator, { guildId: 'guild' }, 50, 2), 'データベースに十分なデータがありません。');
+});
+
+test('応答の生成も同じシードなら同じ結果になる', async () => {
+    const first = await generateResponseFromMessage(seededGenerator(3), '猫はどこにいるの？', { guildId: 'guild' }, 50, 2);
+    const second = await generateResponseFromMessage(seededGenerator(3), '猫はどこにいるの？', { guildId: 'guild' }, 50, 2);
+    assert.equal(second, first);
+    assert.ok(first.length > 0);
+});
@@ -0,0 +1,51 @@
+import Database from 'better-sqlite3';
+import { openDatabase } from '../src/database';
+import { Learner, Tokenizer, buildTokenizer } from '../src/learning';
+import { GuildSettings } from '../src/types';
+
+// マイグレーションを適用したメモリ上のデータベース
+export function createTestDatabase(): Database.Database {
+    return openDatabase(':memory:');
+}
+
+let tokenizerPromise: Promise<Tokenizer> | null = null;
+
+// 辞書の読み込みに時間がかかるので、テストファイル内で 1 つのトークナイザーを使い回す
+export function getTestTokenizer(): Promise<Tokenizer> {
+    tokenizerPromise ??= buildTokenizer();
+    return tokenizerPromise;
+}
+
+export async function createTestLearner(db: Database.Database, optedOutUsers: string[] = []): Promise<Learner> {
+    return { db, tokenizer: await getTestTokenizer(), optedOutUsers: new Set(optedOutUsers) };
+}
+
+// 新しいギルドの設定の初期値（環境変数のチャンネルは使わない）
+export function createTestGuildSettings(changes: Partial<GuildSettings> = {}): GuildSettings {
+    return {
+        autoResponseMode: 'random',
+        responseProbability: 0.5,
+        allowedChannels: [],
+        ignoredChannels: [],
+        responseCooldownSeconds: 0,
+        userCooldownSeconds: 10,
+        maxRepliesPerMinute: 10,
+        botSilenceSeconds: 3,
+        chainOrder: 2,
+        afkChannelId: null,
+        muteTimeoutMinutes: 30,
+        afkCountMute: true,
+        afkCountDeafen: true,
+        afkCountAlone: false,
+        afkWarningMinutes: 5,
+        afkWarningMode: 'dm',
+        afkLogChannelId: null,
+        afkExemptRoles: [],
+        afkExemptChannels: [],
+        crawlChannels: [],
+        feedbackUpEmoji: '👍',
+        feedbackDownEmoji: '👎',
+        feedbackBlacklistEmoji: '🚫',
+        ...changes,
+    };
+}
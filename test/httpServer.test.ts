@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Status } from 'discord.js';
+import { TokenizerState, startHttpServer } from '../src/httpServer';
+import { commandsHandled } from '../src/metrics';
+import { FakeClient } from './fakes';
+import { createTestDatabase } from './helpers';
+
+const client = new FakeClient();
+const db = createTestDatabase();
+let tokenizerState: TokenizerState = 'ready';
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+    server = startHttpServer({ client: client.asClient(), db, getTokenizerState: () => tokenizerState }, 0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+test('/healthz は接続済み・トークナイザー準備済み・DB に問い合わせ可能なら 200 を返す', async () => {
+    const response = await fetch(`${baseUrl}/healthz`);
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.ok, true);
+    assert.deepEqual(body.gateway, { status: 'Ready', ready: true, pingMs: 42 });
+    assert.equal(body.tokenizer, 'ready');
+    assert.deepEqual(body.database, { reachable: true });
+});
+
+test('/healthz はトークナイザーの読み込み中やゲートウェイの切断中は 503 を返す', async () => {
+    tokenizerState = 'loading';
+    let response = await fetch(`${baseUrl}/healthz`);
+    assert.equal(response.status, 503);
+    assert.equal((await response.json()).tokenizer, 'loading');
+    tokenizerState = 'ready';
+
+    client.ws.status = Status.Reconnecting;
+    response = await fetch(`${baseUrl}/healthz`);
+    assert.equal(response.status, 503);
+    assert.deepEqual((await response.json()).gateway, { status: 'Reconnecting', ready: false, pingMs: 42 });
+    client.ws.status = Status.Ready;
+});
+
+test('/metrics はカウンターと現在の状態を Prometheus のテキスト形式で返す', async () => {
+    commandsHandled.inc({ command: 'generate', result: 'success' });
+    db.prepare("INSERT INTO crawl_jobs (guild_id, requested_by, status, message_limit, created_at, updated_at) VALUES ('guild', 'user', 'queued', 100, 0, 0)").run();
+
+    const response = await fetch(`${baseUrl}/metrics`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') ?? '', /^text\/plain; version=0\.0\.4/);
+    const body = await response.text();
+    assert.match(body, /^markov_bot_commands_total\{command="generate",result="success"\} 1$/m);
+    assert.match(body, /^markov_bot_crawl_jobs\{status="queued"\} 1$/m);
+    assert.match(body, /^markov_bot_gateway_ping_seconds 0\.042$/m);
+    assert.match(body, /^markov_bot_up 1$/m);
+});
+
+test('それ以外のパスは 404、GET 以外のメソッドは 405 を返す', async () => {
+    assert.equal((await fetch(`${baseUrl}/unknown`)).status, 404);
+    assert.equal((await fetch(`${baseUrl}/healthz`, { method: 'POST' })).status, 405);
+});
+
+test('サーバーを再度起動しても状態のメトリクスを重複して登録しない', async () => {
+    const second = startHttpServer({ client: client.asClient(), db, getTokenizerState: () => 'loading' }, 0, '127.0.0.1');
+    await new Promise(resolve => second.once('listening', resolve));
+    try {
+        const body = await (await fetch(`${baseUrl}/metrics`)).text();
+        assert.equal(body.match(/^# TYPE markov_bot_up gauge$/gm)?.length, 1);
+        // 後から起動したサーバーの参照先で求める
+        assert.match(body, /^markov_bot_up 0$/m);
+    } finally {
+        await new Promise<void>(resolve => second.close(() => resolve()));
+    }
+});
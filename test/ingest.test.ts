@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { IngestOptions, ingestPath, parseCsv } from '../src/ingest';
+import { createTestDatabase, createTestLearner } from './helpers';
+
+// account/user.json と、取り込み先のサーバー（200000000000000001）のチャンネル 2 つ・別のサーバーのチャンネル 1 つを含むデータパッケージ
+const FIXTURES = path.join(__dirname, 'fixtures', 'ingest');
+const PACKAGE = path.join(FIXTURES, 'package');
+const GUILD_ID = '200000000000000001';
+
+function ingestOptions(changes: Partial<IngestOptions> = {}): IngestOptions {
+    return { guildId: GUILD_ID, authorId: null, channelId: '', allChannels: false, ...changes };
+}
+
+function sources(db: Database.Database) {
+    return db.prepare(`
+        SELECT DISTINCT c.channel_id, s.message_id, s.author_id FROM chain_sources s JOIN markov_chain c ON c.id = s.chain_id
+        ORDER BY s.message_id
+    `).all() as { channel_id: string; message_id: string; author_id: string }[];
+}
+
+function hasText(db: Database.Database, text: string): boolean {
+    return Boolean(db.prepare("SELECT 1 FROM markov_chain WHERE instr(prefix, ?) > 0 OR instr(suffix, ?) > 0").get(text, text));
+}
+
+test('parseCsv は引用符内のカンマ・改行と "" のエスケープを扱う', () => {
+    assert.deepEqual(parseCsv('ID,Contents\r\n1,"a, b"\n2,"彼は""やあ""と\n言った"\n3,\n'), [
+        ['ID', 'Contents'],
+        ['1', 'a, b'],
+        ['2', '彼は"やあ"と\n言った'],
+        ['3', ''],
+    ]);
+    // 末尾に改行がなくても最後の行を返す
+    assert.deepEqual(parseCsv('a,b\nc,"d"'), [['a', 'b'], ['c', 'd']]);
+});
+
+test('データパッケージの messages.json と messages.csv を、取り込み先のサーバーのチャンネルとして学習する', async () => {
+    const db = createTestDatabase();
+
+    const result = ingestPath(await createTestLearner(db), PACKAGE, ingestOptions());
+
+    // 本文のないメッセージは数えず、別のサーバーのチャンネルはスキップする
+    assert.deepEqual(result, { files: 2, messages: 5, skippedChannels: 1, transitions: result.transitions });
+    assert.ok(result.transitions > 0);
+    // 投稿者は account/user.json から取り、数値で書かれた ID も精度を落とさずに読む
+    assert.deepEqual(sources(db), [
+        { channel_id: '100000000000000002', message_id: '1100000000000000001', author_id: '900000000000000001' },
+        { channel_id: '100000000000000002', message_id: '1100000000000000002', author_id: '900000000000000001' },
+        { channel_id: '100000000000000002', message_id: '1100000000000000003', author_id: '900000000000000001' },
+        { channel_id: '100000000000000001', message_id: '1234567890123456789', author_id: '900000000000000001' },
+        { channel_id: '100000000000000001', message_id: '1234567890123456791', author_id: '900000000000000001' },
+    ]);
+    // CSV の引用符内の改行は同じメッセージの続きとして扱う（続きの行を別のメッセージとして数えない）
+    assert.ok(hasText(db, '続く'));
+    assert.ok(!hasText(db, 'サーバー'));
+});
+
+test('allChannels の場合は別のサーバーのメッセージもサーバー全体の遷移として学習する', async () => {
+    const db = createTestDatabase();
+
+    const result = ingestPath(await createTestLearner(db), PACKAGE, ingestOptions({ allChannels: true, authorId: 'bob' }));
+
+    assert.equal(result.files, 3);
+    assert.equal(result.skippedChannels, 0);
+    assert.ok(hasText(db, 'サーバー'));
+    const otherServer = sources(db).find(row => row.message_id === '1300000000000000001');
+    assert.deepEqual(otherServer, { channel_id: '', message_id: '1300000000000000001', author_id: 'bob' });
+});
+
+test('テキストファイルは空行を除く 1 行を 1 メッセージとして、指定したチャンネルに学習する', async () => {
+    const db = createTestDatabase();
+
+    const result = ingestPath(await createTestLearner(db), path.join(FIXTURES, 'notes.txt'), ingestOptions({ authorId: 'carol', channelId: 'channel' }));
+
+    assert.deepEqual(result, { files: 1, messages: 2, skippedChannels: 0, transitions: result.transitions });
+    assert.deepEqual(sources(db), [
+        { channel_id: 'channel', message_id: 'notes.txt:1', author_id: 'carol' },
+        { channel_id: 'channel', message_id: 'notes.txt:3', author_id: 'carol' },
+    ]);
+    // 先頭の BOM は本文に含めない
+    assert.ok(hasText(db, '文章'));
+    assert.ok(!hasText(db, '\uFEFF'));
+});
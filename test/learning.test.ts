@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { MAX_CHAIN_ORDER, mergeDefaultCorpus, prefixKey } from '../src/corpus';
+import { DEFAULT_CORPUS_GUILD_ID } from '../src/database';
+import { BOS_TOKEN, EOS_TOKEN, forgetSources, learnText } from '../src/learning';
+import { createTestDatabase, createTestLearner } from './helpers';
+
+function getCount(db: ReturnType<typeof createTestDatabase>, direction: string, order: number, prefix: string[], suffix: string): number | undefined {
+    const row = db.prepare('SELECT count FROM markov_chain WHERE guild_id = ? AND direction = ? AND chain_order = ? AND prefix = ? AND suffix = ?')
+        .get('guild', direction, order, prefixKey(prefix), suffix) as { count: number } | undefined;
+    return row?.count;
+}
+
+test('learnText は文を 1〜MAX_CHAIN_ORDER 次の順方向・逆方向の連鎖として記録する', async () => {
+    const db = createTestDatabase();
+    const learner = await createTestLearner(db);
+
+    const transitions = learnText(learner, 'guild', 'channel', '猫が好き', { messageId: 'm1', authorId: 'u1' });
+
+    // 猫 / が / 好き の 3 語と文末で 4 遷移
+    assert.equal(transitions, 4);
+    assert.equal(getCount(db, 'forward', 1, [BOS_TOKEN], '猫'), 1);
+    assert.equal(getCount(db, 'forward', 2, ['猫', 'が'], '好き'), 1);
+    assert.equal(getCount(db, 'forward', 1, ['好き'], EOS_TOKEN), 1);
+    assert.equal(getCount(db, 'backward', 2, ['好き', 'が'], '猫'), 1);
+    assert.equal(getCount(db, 'backward', 1, ['猫'], BOS_TOKEN), 1);
+
+    const orders = db.prepare('SELECT DISTINCT chain_order FROM markov_chain ORDER BY chain_order').all() as { chain_order: number }[];
+    assert.deepEqual(orders.map(row => row.chain_order), Array.from({ length: MAX_CHAIN_ORDER }, (_, i) => i + 1));
+});
+
+test('同じ遷移は出現回数を加算し、出典を遷移ごとに記録する', async () => {
+    const db = createTestDatabase();
+    const learner = await createTestLearner(db);
+
+    learnText(learner, 'guild', 'channel', '猫が好き', { messageId: 'm1', authorId: 'u1' });
+    learnText(learner, 'guild', 'channel', '猫が好き', { messageId: 'm2', authorId: 'u2' });
+
+    assert.equal(getCount(db, 'forward', 2, ['猫', 'が'], '好き'), 2);
+    const sources = db.prepare('SELECT COUNT(DISTINCT message_id) AS messages, COUNT(*) AS count FROM chain_sources').get() as { messages: number; count: number };
+    assert.equal(sources.messages, 2);
+    // 1 メッセージあたり 4 遷移 × 4 次数 × 2 方向
+    assert.equal(sources.count, 2 * 4 * MAX_CHAIN_ORDER * 2);
+});
+
+test('学習を拒否したユーザーのメッセージは記録しない', async () => {
+    const db = createTestDatabase();
+    const learner = await createTestLearner(db, ['u1']);
+
+    assert.equal(learnText(learner, 'guild', 'channel', '猫が好き', { messageId: 'm1', authorId: 'u1' }), 0);
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM markov_chain').get() as { count: number }).count, 0);
+});
+
+test('出典が null の場合は連鎖のみを記録する', async () => {
+    const db = createTestDatabase();
+    const learner = await createTestLearner(db);
+
+    learnText(learner, 'guild', '', '猫が好き', null);
+
+    assert.equal(getCount(db, 'forward', 1, ['猫'], 'が'), 1);
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM chain_sources').get() as { count: number }).count, 0);
+});
+
+test('ギルドを指定した削除はそのギルドのコーパスの遷移だけを取り除く', async () => {
+    const db = createTestDatabase();
+    const learner = await createTestLearner(db);
+    learnText(learner, 'guild', 'channel', '猫が好き', { messageId: 'm1', authorId: 'u1' });
+    learnText(learner, 'other-guild', 'channel', '猫が好き', { messageId: 'm2', authorId: 'u1' });
+    const countChains = (guildId: string) =>
+        (db.prepare('SELECT COUNT(*) AS count FROM markov_chain WHERE guild_id = ?').get(guildId) as { count: number }).count;
+    const otherChains = countChains('other-guild');
+
+    const result = forgetSources(db, 'author_id', 'u1', 'guild');
+
+    assert.ok(result.removedTransitions > 0);
+    assert.equal(countChains('guild'), 0);
+    assert.equal(countChains('other-guild'), otherChains);
+    assert.equal(getCount(db, 'forward', 2, ['猫', 'が'], '好き'), undefined);
+
+    // ギルドを指定しない場合はすべてのギルドから取り除く
+    forgetSources(db, 'author_id', 'u1');
+    assert.equal(countChains('other-guild'), 0);
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM chain_sources').get() as { count: number }).count, 0);
+});
+
+test('デフォルトコーパスはギルドの同じ遷移と出現回数を足して統合し、出典も引き継ぐ', async () => {
+    const db = createTestDatabase();
+    const learner = await createTestLearner(db);
+    learnText(learner, DEFAULT_CORPUS_GUILD_ID, '', '猫が好き', { messageId: 'm1', authorId: 'u1' });
+    learnText(learner, DEFAULT_CORPUS_GUILD_ID, '', '犬が好き', { messageId: 'm2', authorId: 'u2' });
+    learnText(learner, 'guild', 'channel', '猫が好き', { messageId: 'm3', authorId: 'u3' });
+
+    mergeDefaultCorpus(db, 'guild', 'channel');
+
+    assert.equal(getCount(db, 'forward', 2, ['猫', 'が'], '好き'), 2);
+    assert.equal(getCount(db, 'forward', 2, ['犬', 'が'], '好き'), 1);
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM markov_chain WHERE guild_id = ?').get(DEFAULT_CORPUS_GUILD_ID) as { count: number }).count, 0);
+    // すべての出典が統合先の遷移を指す
+    const orphans = db.prepare('SELECT COUNT(*) AS count FROM chain_sources s LEFT JOIN markov_chain c ON c.id = s.chain_id WHERE c.id IS NULL OR c.guild_id != ?')
+        .get('guild') as { count: number };
+    assert.equal(orphans.count, 0);
+
+    // 統合した遷移もメッセージ単位で忘れられる
+    forgetSources(db, 'message_id', 'm1', 'guild');
+    assert.equal(getCount(db, 'forward', 2, ['猫', 'が'], '好き'), 1);
+});
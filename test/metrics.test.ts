@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createCounter, createGauge, createHistogram, renderMetrics } from '../src/metrics';
+
+test('カウンターはラベルの組み合わせごとに合計し、Prometheus のテキスト形式で出力する', () => {
+    const counter = createCounter('test_requests_total', 'Requests.');
+    counter.inc({ path: '/a', method: 'GET' });
+    counter.inc({ method: 'GET', path: '/a' }, 2);
+    counter.inc({ path: 'say "hi"\\n' });
+
+    const output = renderMetrics();
+    assert.match(output, /# HELP test_requests_total Requests\.\n# TYPE test_requests_total counter\n/);
+    assert.match(output, /^test_requests_total\{path="\/a",method="GET"\} 3$/m);
+    assert.match(output, /^test_requests_total\{path="say \\"hi\\"\\\\n"\} 1$/m);
+});
+
+test('ヒストグラムはバケットごとの累積数・合計・件数を出力する', () => {
+    const histogram = createHistogram('test_duration_seconds', 'Duration.', [0.1, 1]);
+    histogram.observe({ type: 'a' }, 0.05);
+    histogram.observe({ type: 'a' }, 0.5);
+    histogram.observe({ type: 'a' }, 3);
+
+    const output = renderMetrics();
+    assert.match(output, /^test_duration_seconds_bucket\{type="a",le="0\.1"\} 1$/m);
+    assert.match(output, /^test_duration_seconds_bucket\{type="a",le="1"\} 2$/m);
+    assert.match(output, /^test_duration_seconds_bucket\{type="a",le="\+Inf"\} 3$/m);
+    assert.match(output, /^test_duration_seconds_sum\{type="a"\} 3\.55$/m);
+    assert.match(output, /^test_duration_seconds_count\{type="a"\} 3$/m);
+});
+
+test('ゲージは出力のたびに値を取得し、同じ名前のメトリクスは登録できない', () => {
+    let value = 1;
+    createGauge('test_queue_size', 'Queue size.', () => [{ value }]);
+    assert.match(renderMetrics(), /^test_queue_size 1$/m);
+    value = 5;
+    assert.match(renderMetrics(), /^test_queue_size 5$/m);
+
+    assert.throws(() => createCounter('test_queue_size', 'Duplicate.'), /Duplicate metric name/);
+});
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { VoiceTracker, handleVoiceStateUpdate, processAfkTimers } from '../src/voice';
+import { GuildSettings } from '../src/types';
+import { FakeClient } from './fakes';
+import { createTestDatabase, createTestGuildSettings } from './helpers';
+
+const MINUTE_MS = 60 * 1000;
+
+// ボイスチャンネル・AFK チャンネル・ログチャンネルのあるギルドで、voiceStateUpdate を本体と同じように処理する
+function setup(changes: Partial<GuildSettings> = {}) {
+    const db = createTestDatabase();
+    const client = new FakeClient();
+    const guild = client.addGuild('guild');
+    const voiceChannel = guild.addVoiceChannel('voice');
+    const afkChannel = guild.addVoiceChannel('afk');
+    const logChannel = guild.addTextChannel('log');
+    const settings = createTestGuildSettings({ afkChannelId: 'afk', afkLogChannelId: 'log', ...changes });
+    const tracker: VoiceTracker = { db, client: client.asClient(), getGuildSettings: () => settings };
+    client.on('voiceStateUpdate', (oldState, newState) => handleVoiceStateUpdate(tracker, oldState, newState));
+
+    const getTimerUserIds = () => (db.prepare('SELECT user_id FROM afk_timers ORDER BY user_id').all() as { user_id: string }[]).map(row => row.user_id);
+    return { db, guild, voiceChannel, afkChannel, logChannel, tracker, getTimerUserIds };
+}
+
+test('ミュートのまま時間が経つと、警告してから AFK チャンネルへ移動する', async () => {
+    const { guild, voiceChannel, afkChannel, logChannel, tracker, getTimerUserIds } = setup();
+    const member = guild.addMember('alice');
+    const start = Date.now();
+
+    guild.updateVoiceState('alice', { channelId: 'voice' });
+    guild.updateVoiceState('alice', { selfMute: true });
+    assert.deepEqual(getTimerUserIds(), ['alice']);
+
+    // 警告の時刻（移動の 5 分前）より前は何もしない
+    await processAfkTimers(tracker, start + 20 * MINUTE_MS);
+    assert.equal(member.directMessages.length, 0);
+
+    await processAfkTimers(tracker, start + 26 * MINUTE_MS);
+    assert.equal(member.directMessages.length, 1);
+    assert.match(member.directMessages[0], /ミュートの状態が続いているため/);
+
+    // 警告は 1 回だけ
+    await processAfkTimers(tracker, start + 27 * MINUTE_MS);
+    assert.equal(member.directMessages.length, 1);
+
+    await processAfkTimers(tracker, start + 31 * MINUTE_MS);
+    assert.equal(member.voice.channelId, 'afk');
+    assert.deepEqual(afkChannel.moveReasons, ['AFK（ミュート）']);
+    assert.equal(voiceChannel.members.size, 0);
+    assert.deepEqual(getTimerUserIds(), []);
+    assert.equal(logChannel.sent.length, 1);
+    assert.match(String(logChannel.sent[0]), /<@alice> を <#voice> から <#afk> へ移動しました/);
+});
+
+test('前回の判定が終わる前に次の判定が始まっても、警告を二重に送らない', async () => {
+    const { guild, tracker } = setup();
+    const member = guild.addMember('alice');
+    const start = Date.now();
+    guild.updateVoiceState('alice', { channelId: 'voice', selfMute: true });
+
+    await Promise.all([processAfkTimers(tracker, start + 26 * MINUTE_MS), processAfkTimers(tracker, start + 26 * MINUTE_MS)]);
+
+    assert.equal(member.directMessages.length, 1);
+});
+
+test('ミュートを解除するとタイマーが止まり、移動しない', async () => {
+    const { guild, tracker, getTimerUserIds } = setup();
+    const member = guild.addMember('alice');
+    const start = Date.now();
+
+    guild.updateVoiceState('alice', { channelId: 'voice', selfDeaf: true });
+    assert.deepEqual(getTimerUserIds(), ['alice']);
+    guild.updateVoiceState('alice', { selfDeaf: false });
+    assert.deepEqual(getTimerUserIds(), []);
+
+    await processAfkTimers(tracker, start + 60 * MINUTE_MS);
+    assert.equal(member.voice.channelId, 'voice');
+});
+
+test('ミュートのまま別のチャンネルへ移っても、AFK とみなした時刻は変わらない', async () => {
+    const { db, guild } = setup();
+    guild.addMember('alice');
+    guild.addVoiceChannel('voice2');
+
+    guild.updateVoiceState('alice', { channelId: 'voice', selfMute: true });
+    const before = db.prepare('SELECT inactive_since FROM afk_timers').get();
+    guild.updateVoiceState('alice', { channelId: 'voice2' });
+    assert.deepEqual(db.prepare('SELECT inactive_since FROM afk_timers').get(), before);
+});
+
+test('除外ロールのメンバー・除外チャンネル・ボットは AFK とみなさない', async () => {
+    const { guild, getTimerUserIds } = setup({ afkExemptRoles: ['staff'], afkExemptChannels: ['stage'] });
+    guild.addVoiceChannel('stage');
+    guild.addMember('staff-member', { roleIds: ['staff'] });
+    guild.addMember('listener');
+    guild.addMember('music-bot', { bot: true });
+
+    guild.updateVoiceState('staff-member', { channelId: 'voice', selfMute: true });
+    guild.updateVoiceState('listener', { channelId: 'stage', selfMute: true });
+    guild.updateVoiceState('music-bot', { channelId: 'voice', serverMute: true });
+    assert.deepEqual(getTimerUserIds(), []);
+});
+
+test('「1人だけ」を AFK とみなす場合は、入退室のたびに同じチャンネルのメンバーも判定し直す', async () => {
+    const { guild, getTimerUserIds } = setup({ afkCountMute: false, afkCountDeafen: false, afkCountAlone: true });
+    guild.addMember('alice');
+    guild.addMember('bob');
+
+    guild.updateVoiceState('alice', { channelId: 'voice' });
+    assert.deepEqual(getTimerUserIds(), ['alice']);
+
+    guild.updateVoiceState('bob', { channelId: 'voice' });
+    assert.deepEqual(getTimerUserIds(), []);
+
+    guild.updateVoiceState('bob', { channelId: null });
+    assert.deepEqual(getTimerUserIds(), ['alice']);
+});
+
+test('移動に失敗した場合はタイマーを残し、次の判定まで待つ', async () => {
+    const { db, guild, tracker } = setup({ afkChannelId: 'deleted-channel' });
+    guild.addMember('alice');
+    const start = Date.now();
+
+    guild.updateVoiceState('alice', { channelId: 'voice', selfMute: true });
+    await processAfkTimers(tracker, start + 31 * MINUTE_MS);
+
+    assert.equal(guild.voiceStates.cache.get('alice')?.channelId, 'voice');
+    assert.deepEqual(db.prepare('SELECT inactive_since, warned_at FROM afk_timers').get(), {
+        inactive_since: start + 31 * MINUTE_MS,
+        warned_at: start + 31 * MINUTE_MS,
+    });
+});
+
+test('滞在記録は入退室とミュートの切り替えごとに区切り、AFK チャンネルの滞在は記録しない', async () => {
+    const { db, guild, tracker } = setup();
+    guild.addMember('alice');
+    const start = Date.now();
+
+    guild.updateVoiceState('alice', { channelId: 'voice' });
+    guild.updateVoiceState('alice', { selfMute: true });
+    await processAfkTimers(tracker, start + 31 * MINUTE_MS);
+
+    const sessions = db.prepare('SELECT channel_id, muted, joined, ended_at IS NOT NULL AS ended FROM voice_sessions ORDER BY id').all();
+    assert.deepEqual(sessions, [
+        { channel_id: 'voice', muted: 0, joined: 1, ended: 1 },
+        { channel_id: 'voice', muted: 1, joined: 0, ended: 1 },
+    ]);
+});